@@ -0,0 +1,1304 @@
+import utils from './utils';
+import lexer, { TYPES, LexerToken, Position, findInterpolation } from './lexer';
+import parser from './parser';
+import { SwigOptions } from './swig';
+import { Tags } from './tags';
+import { TemplateError } from './error';
+
+const _t = TYPES;
+
+export { Position };
+
+/**
+ * Part of a template source, `end` is the position after the last character.
+ */
+export interface SourceRange {
+    start: Position;
+    end: Position;
+}
+
+export interface LiteralNode {
+    type: 'Literal';
+    value: string | number | boolean;
+    /** Literal as written in the source. */
+    raw: string;
+    range: SourceRange;
+}
+
+/**
+ * Double quoted string with expressions, as in `"Hello #{name}"`. The text between expressions is a Literal.
+ */
+export interface InterpolationNode {
+    type: 'Interpolation';
+    parts: Expression[];
+    range: SourceRange;
+}
+
+export interface VariableNode {
+    type: 'Variable';
+    name: string;
+    range: SourceRange;
+}
+
+/**
+ * Key of an object, `a.b` is not computed and has a string Literal property, `a[b]` is computed.
+ */
+export interface MemberNode {
+    type: 'Member';
+    object: Expression;
+    property: Expression;
+    computed: boolean;
+    /** Whether the member is read with `?.`, that gives an empty value when the object is missing. */
+    optional?: boolean;
+    range: SourceRange;
+}
+
+export interface SliceNode {
+    type: 'Slice';
+    object: Expression;
+    start: Expression;
+    stop: Expression;
+    step: Expression;
+    range: SourceRange;
+}
+
+export interface CallNode {
+    type: 'Call';
+    callee: Expression;
+    arguments: Expression[];
+    range: SourceRange;
+}
+
+export interface FilterNode {
+    type: 'Filter';
+    name: string;
+    input: Expression;
+    arguments: Expression[];
+    range: SourceRange;
+}
+
+export interface TestNode {
+    type: 'Test';
+    name: string;
+    negated: boolean;
+    input: Expression;
+    arguments: Expression[];
+    range: SourceRange;
+}
+
+export interface UnaryNode {
+    type: 'Unary';
+    operator: string;
+    argument: Expression;
+    range: SourceRange;
+}
+
+/**
+ * Operator between two expressions, as written in the source. This includes `and`, `in`, `..` and `~`.
+ */
+export interface BinaryNode {
+    type: 'Binary';
+    operator: string;
+    left: Expression;
+    right: Expression;
+    range: SourceRange;
+}
+
+/**
+ * Inline condition, `consequent if test else alternate` or `test ? consequent : alternate`.
+ */
+export interface ConditionalNode {
+    type: 'Conditional';
+    test: Expression;
+    consequent: Expression;
+    alternate: Expression;
+    range: SourceRange;
+}
+
+export interface AssignmentNode {
+    type: 'Assignment';
+    operator: string;
+    target: Expression;
+    value: Expression;
+    range: SourceRange;
+}
+
+export interface ArrayNode {
+    type: 'Array';
+    elements: Expression[];
+    range: SourceRange;
+}
+
+/**
+ * Names in parentheses to unpack a value into, as in `{% for key, (a, b) in pairs %}`.
+ */
+export interface TupleNode {
+    type: 'Tuple';
+    elements: Expression[];
+    range: SourceRange;
+}
+
+export interface PropertyNode {
+    type: 'Property';
+    /** Key as written in the source, a name, a string or a number. */
+    key: LiteralNode;
+    value: Expression;
+    range: SourceRange;
+}
+
+export interface ObjectNode {
+    type: 'Object';
+    properties: PropertyNode[];
+    range: SourceRange;
+}
+
+/**
+ * Part of the arguments of a tag that is not an expression, like the comma in `{% for key, value in obj %}`.
+ */
+export interface SymbolNode {
+    type: 'Symbol';
+    value: string;
+    range: SourceRange;
+}
+
+export type Expression = LiteralNode | InterpolationNode | VariableNode | MemberNode | SliceNode | CallNode |
+    FilterNode | TestNode | UnaryNode | BinaryNode | ConditionalNode | AssignmentNode | ArrayNode | TupleNode | ObjectNode | SymbolNode;
+
+export interface TextNode {
+    type: 'Text';
+    value: string;
+    range: SourceRange;
+}
+
+export interface CommentNode {
+    type: 'Comment';
+    /** Text between the comment controls, or after the line comment prefix. */
+    value: string;
+    /** Whether the comment is a line comment, as with `## note`. */
+    lineComment?: boolean;
+    range: SourceRange;
+}
+
+/**
+ * Variable output, `{{ expression }}`. The expression is null for an empty variable.
+ */
+export interface OutputNode {
+    type: 'Output';
+    expression: Expression;
+    /** Whether the whitespace before is stripped, as with `{{-`. */
+    stripBefore: boolean;
+    /** Whether the whitespace after is stripped, as with `-}}`. */
+    stripAfter: boolean;
+    range: SourceRange;
+}
+
+/**
+ * Closing tag of a tag with a body, as `{% endif %}`.
+ */
+export interface EndTagNode {
+    stripBefore: boolean;
+    stripAfter: boolean;
+    /** Whether the end tag is a line statement, as with `% endif`. */
+    lineStatement?: boolean;
+    /** Whether the whitespace before is kept with `trimBlocks` and `lstripBlocks`, as with `{%+`. */
+    keepBefore?: boolean;
+    /** Whether the line break after is kept with `trimBlocks`, as with `+%}`. */
+    keepAfter?: boolean;
+    range: SourceRange;
+}
+
+/**
+ * Tag, `{% name args %}`. Tags that end, like `if`, have a body and an end tag.
+ * The end tag is null when the source ends before it.
+ */
+export interface TagNode {
+    type: 'Tag';
+    name: string;
+    args: Expression[];
+    body?: AstNode[];
+    end?: EndTagNode;
+    stripBefore: boolean;
+    stripAfter: boolean;
+    /** Whether the tag is a line statement, as with `% if a`. */
+    lineStatement?: boolean;
+    /** Whether the whitespace before is kept with `trimBlocks` and `lstripBlocks`, as with `{%+`. */
+    keepBefore?: boolean;
+    /** Whether the line break after is kept with `trimBlocks`, as with `+%}`. */
+    keepAfter?: boolean;
+    range: SourceRange;
+}
+
+/**
+ * Block that an extending template can override, `{% block name %}...{% endblock %}`.
+ */
+export interface BlockNode {
+    type: 'Block';
+    name: string;
+    body: AstNode[];
+    end: EndTagNode;
+    stripBefore: boolean;
+    stripAfter: boolean;
+    /** Whether the block tag is a line statement, as with `% block a`. */
+    lineStatement?: boolean;
+    /** Whether the whitespace before is kept with `trimBlocks` and `lstripBlocks`, as with `{%+`. */
+    keepBefore?: boolean;
+    /** Whether the line break after is kept with `trimBlocks`, as with `+%}`. */
+    keepAfter?: boolean;
+    range: SourceRange;
+}
+
+export type AstNode = TextNode | CommentNode | OutputNode | TagNode | BlockNode;
+
+export interface TemplateAst {
+    type: 'Template';
+    filename: string;
+    body: AstNode[];
+    range: SourceRange;
+}
+
+interface AstToken extends LexerToken {
+    /** Token as written in the source, without trailing whitespace. */
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Binding power of binary, assignment and conditional operators. Higher binds tighter.
+ * @private
+ */
+const _powers = {
+    '=': 1, '+=': 1, '-=': 1, '*=': 1, '/=': 1,
+    '?': 2, 'if': 2,
+    '||': 3, 'or': 3,
+    '&&': 4, 'and': 4,
+    '===': 5, '==': 5, '!==': 5, '!=': 5,
+    '<': 6, '<=': 6, '>': 6, '>=': 6, 'in': 6, 'gt': 6, 'gte': 6, 'lt': 6, 'lte': 6,
+    '??': 7,
+    '~': 8,
+    '..': 9,
+    '+': 10, '-': 10,
+    '*': 11, '/': 11, '%': 11
+};
+const _unaryPower = 12;
+const _postfixPower = 13;
+const _postfix = [_t.FILTER, _t.FILTEREMPTY, _t.TEST, _t.TESTEMPTY, _t.DOTKEY, _t.BRACKETOPEN, _t.PARENOPEN];
+const _starts = [_t.STRING, _t.NUMBER, _t.BOOL, _t.VAR, _t.FUNCTION, _t.FUNCTIONEMPTY, _t.PARENOPEN, _t.BRACKETOPEN, _t.CURLYOPEN, _t.NOT, _t.UNKNOWN];
+
+/**
+ * Parse the expressions of a variable or tag into expression nodes.
+ *
+ * @class ExpressionParser
+ * @private
+ */
+class ExpressionParser {
+    private tokens: AstToken[];
+    private index: number = 0;
+
+    /**
+     * Creates an instance of ExpressionParser.
+     *
+     * @param str       Source of the expressions.
+     * @param offset    Offset of the expressions in the template source.
+     * @param locate    Get the position of an offset in the template source.
+     * @param fail      Throw an error at an offset in the template source.
+     */
+    constructor(str: string, offset: number, private locate: (offset: number) => Position, private fail: (message: string, offset: number) => never) {
+        this.tokens = this.read(str, offset);
+    }
+
+    /**
+     * Parse a single expression, that must use all of the source.
+     *
+     * @return {Expression}   Expression node, or null for an empty source.
+     */
+    parseOne(): Expression {
+        let node;
+
+        if (!this.peek()) {
+            return null;
+        }
+        node = this.parseExpression(0);
+        if (this.peek()) {
+            this.unexpected(this.peek());
+        }
+
+        return node;
+    }
+
+    /**
+     * Parse the arguments of a tag, expressions and symbols in the order of the source.
+     *
+     * @return {Expression[]}
+     */
+    parseArguments(): Expression[] {
+        const out: Expression[] = [];
+        let token;
+
+        while ((token = this.peek())) {
+            if (_starts.indexOf(token.type) !== -1) {
+                out.push(this.parseExpression(0));
+            } else {
+                this.index += 1;
+                out.push({ type: 'Symbol', value: token.text, range: this.range(token.start, token.end) });
+            }
+        }
+
+        return out;
+    }
+
+    /**
+     * Read the tokens of a source with their offsets, without whitespace.
+     *
+     * @param str       Source of the expressions.
+     * @param offset    Offset of the source in the template source.
+     * @return {AstToken[]}
+     */
+    private read(str: string, offset: number): AstToken[] {
+        const out: AstToken[] = [];
+
+        utils.each(lexer.read(str, this.locate(offset)), (token: LexerToken) => {
+            if (token.type !== _t.WHITESPACE) {
+                out.push({ type: token.type, match: token.match, length: token.length, text: str.slice(token.start - offset, token.end - offset), start: token.start, end: token.end });
+            }
+        });
+
+        return out;
+    }
+
+    private peek(): AstToken {
+        return this.tokens[this.index];
+    }
+
+    private next(): AstToken {
+        return this.tokens[this.index++];
+    }
+
+    private range(start: number, end: number): SourceRange {
+        return { start: this.locate(start), end: this.locate(end) };
+    }
+
+    private unexpected(token: AstToken): never {
+        if (!token) {
+            const last = this.tokens[this.tokens.length - 1];
+            return this.fail('Unexpected end of expression', last ? last.end : 0);
+        }
+        return this.fail(token.type === _t.UNKNOWN ? `Unexpected token "${token.text}"` : `Unexpected "${token.text}"`, token.start);
+    }
+
+    private expect(type: number): AstToken {
+        const token = this.peek();
+
+        if (!token || token.type !== type) {
+            this.unexpected(token);
+        }
+        this.index += 1;
+
+        return token;
+    }
+
+    /**
+     * Binding power of the token after an expression, 0 if it does not continue the expression.
+     *
+     * @param token   Lexer token.
+     * @return {number}
+     */
+    private power(token: AstToken): number {
+        if (!token) {
+            return 0;
+        }
+        if (_postfix.indexOf(token.type) !== -1) {
+            return _postfixPower;
+        }
+        switch (token.type) {
+            case _t.OPERATOR:
+            case _t.LOGIC:
+            case _t.COMPARATOR:
+            case _t.ASSIGNMENT:
+            case _t.RANGE:
+            case _t.CONCAT:
+            case _t.NULLISH:
+                return _powers[token.text] || 0;
+            case _t.NUMBER:
+                // `a -1` subtracts
+                return /^[+\-]/.test(token.text) ? _powers['-'] : 0;
+            case _t.CONDITIONAL:
+                // An `if` without an `else` belongs to the tag, as in `{% else if a %}`
+                return (token.text === '?' || this.hasElse()) ? _powers['?'] : 0;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Whether the `if` at the current token has a matching `else`.
+     *
+     * @return {boolean}
+     */
+    private hasElse(): boolean {
+        let depth = 0,
+            pending = 0,
+            i,
+            type;
+
+        for (i = this.index; i < this.tokens.length; i += 1) {
+            type = this.tokens[i].type;
+            if ([_t.PARENOPEN, _t.FUNCTION, _t.FILTER, _t.TEST, _t.BRACKETOPEN, _t.CURLYOPEN].indexOf(type) !== -1) {
+                depth += 1;
+            } else if ([_t.PARENCLOSE, _t.BRACKETCLOSE, _t.CURLYCLOSE].indexOf(type) !== -1) {
+                depth -= 1;
+            }
+            if (depth < 0 || (depth === 0 && type === _t.COMMA)) {
+                return false;
+            }
+            if (depth === 0 && type === _t.CONDITIONAL && this.tokens[i].text === 'if') {
+                pending += 1;
+            } else if (depth === 0 && type === _t.CONDITIONALELSE && !(pending -= 1)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Parse an expression of operators that bind tighter than `power`.
+     *
+     * @param power   Binding power of the operator on the left.
+     * @return {Expression}
+     */
+    private parseExpression(power: number): Expression {
+        let node = this.parsePrefix(),
+            token;
+
+        while ((token = this.peek()) && this.power(token) > power) {
+            node = this.parseInfix(node, token);
+        }
+
+        return node;
+    }
+
+    private parsePrefix(): Expression {
+        const token = this.next();
+        let node: Expression, list;
+
+        if (!token) {
+            return this.unexpected(token);
+        }
+
+        switch (token.type) {
+            case _t.STRING:
+                return this.parseString(token);
+
+            case _t.NUMBER:
+                return { type: 'Literal', value: Number(token.text), raw: token.text, range: this.range(token.start, token.end) };
+
+            case _t.BOOL:
+                return { type: 'Literal', value: token.text === 'true', raw: token.text, range: this.range(token.start, token.end) };
+
+            case _t.VAR:
+                return this.parseVariable(token);
+
+            case _t.FUNCTION:
+            case _t.FUNCTIONEMPTY:
+                node = { type: 'Variable', name: token.match, range: this.range(token.start, token.start + token.match.length) };
+                list = (token.type === _t.FUNCTION) ? this.parseList(_t.PARENCLOSE) : { items: [], end: token.end };
+                return { type: 'Call', callee: node, arguments: list.items, range: this.range(token.start, list.end) };
+
+            case _t.PARENOPEN:
+                node = this.parseExpression(0);
+                if (this.peek() && this.peek().type === _t.COMMA) {
+                    this.index += 1;
+                    list = this.parseList(_t.PARENCLOSE);
+                    return { type: 'Tuple', elements: [node].concat(list.items), range: this.range(token.start, list.end) };
+                }
+                this.expect(_t.PARENCLOSE);
+                return node;
+
+            case _t.BRACKETOPEN:
+                list = this.parseList(_t.BRACKETCLOSE);
+                return { type: 'Array', elements: list.items, range: this.range(token.start, list.end) };
+
+            case _t.CURLYOPEN:
+                return this.parseObject(token);
+
+            case _t.NOT:
+                node = this.parseExpression(_unaryPower);
+                return { type: 'Unary', operator: token.text, argument: node, range: this.range(token.start, node.range.end.offset) };
+
+            case _t.OPERATOR:
+                if (token.text === '-' || token.text === '+') {
+                    node = this.parseExpression(_unaryPower);
+                    return { type: 'Unary', operator: token.text, argument: node, range: this.range(token.start, node.range.end.offset) };
+                }
+                break;
+        }
+
+        return this.unexpected(token);
+    }
+
+    private parseInfix(left: Expression, token: AstToken): Expression {
+        const start = left.range.start.offset,
+            power = this.power(token);
+        let node: Expression, list, test;
+
+        this.index += 1;
+        switch (token.type) {
+            case _t.DOTKEY:
+                node = { type: 'Literal', value: token.match, raw: token.match, range: this.range(token.start + 1, token.end) };
+                return { type: 'Member', object: left, property: node, computed: false, range: this.range(start, token.end) };
+
+            case _t.BRACKETOPEN:
+                return this.parseIndex(left);
+
+            case _t.PARENOPEN:
+                list = this.parseList(_t.PARENCLOSE);
+                return { type: 'Call', callee: left, arguments: list.items, range: this.range(start, list.end) };
+
+            case _t.FILTER:
+            case _t.FILTEREMPTY:
+                list = (token.type === _t.FILTER) ? this.parseList(_t.PARENCLOSE) : { items: [], end: token.end };
+                return { type: 'Filter', name: token.match, input: left, arguments: list.items, range: this.range(start, list.end) };
+
+            case _t.TEST:
+            case _t.TESTEMPTY:
+                list = (token.type === _t.TEST) ? this.parseList(_t.PARENCLOSE) : { items: [], end: token.end };
+                return {
+                    type: 'Test',
+                    name: token.match.split(/\s+/).pop(),
+                    negated: /^not\s/.test(token.match),
+                    input: left,
+                    arguments: list.items,
+                    range: this.range(start, list.end)
+                };
+
+            case _t.NUMBER:
+                node = { type: 'Literal', value: Number(token.text.slice(1)), raw: token.text.slice(1), range: this.range(token.start + 1, token.end) };
+                return { type: 'Binary', operator: token.text.charAt(0), left: left, right: node, range: this.range(start, token.end) };
+
+            case _t.ASSIGNMENT:
+                // Assignments group to the right
+                node = this.parseExpression(power - 1);
+                return { type: 'Assignment', operator: token.text, target: left, value: node, range: this.range(start, node.range.end.offset) };
+
+            case _t.CONDITIONAL:
+                if (token.text === '?') {
+                    test = left;
+                    left = this.parseExpression(power - 1);
+                    token = this.next();
+                    if (!token || (token.type !== _t.COLON && token.type !== _t.CONDITIONALELSE)) {
+                        this.unexpected(token);
+                    }
+                } else {
+                    test = this.parseExpression(power);
+                    this.expect(_t.CONDITIONALELSE);
+                }
+                // Conditions group to the right
+                node = this.parseExpression(power - 1);
+                return { type: 'Conditional', test: test, consequent: left, alternate: node, range: this.range(start, node.range.end.offset) };
+        }
+
+        // `??` groups to the right, as it is compiled
+        node = this.parseExpression((token.type === _t.NULLISH) ? power - 1 : power);
+        return { type: 'Binary', operator: token.text, left: left, right: node, range: this.range(start, node.range.end.offset) };
+    }
+
+    /**
+     * Parse a string literal, double quoted strings with `#{...}` are interpolations.
+     *
+     * @param token   String token.
+     * @return {Expression}
+     */
+    private parseString(token: AstToken): Expression {
+        const body = token.text.slice(1, -1),
+            parts: Expression[] = [],
+            offset = token.start + 1;
+        let last = 0,
+            found,
+            parser;
+
+        if (token.text.charAt(0) !== '"' || body.indexOf('#{') === -1) {
+            return {
+                type: 'Literal',
+                value: body.replace(/\\(.)/g, '$1'),
+                raw: token.text,
+                range: this.range(token.start, token.end)
+            };
+        }
+
+        while ((found = findInterpolation(body, last)) !== null) {
+            if (found.index > last) {
+                parts.push(this.text(body.slice(last, found.index), offset + last));
+            }
+            parser = new ExpressionParser(found.expression, offset + found.index + 2, this.locate, this.fail);
+            parts.push(parser.parseOne() || this.fail(`Unable to parse "${body.slice(found.index, found.end)}"`, offset + found.index));
+            last = found.end;
+        }
+        if (last < body.length) {
+            parts.push(this.text(body.slice(last), offset + last));
+        }
+
+        return { type: 'Interpolation', parts: parts, range: this.range(token.start, token.end) };
+    }
+
+    private text(str: string, offset: number): LiteralNode {
+        return { type: 'Literal', value: str.replace(/\\(.)/g, '$1'), raw: str, range: this.range(offset, offset + str.length) };
+    }
+
+    /**
+     * Parse a variable, `a.b.c` and `a?.b` are read as a single token.
+     *
+     * @param token   Variable token.
+     * @return {Expression}
+     */
+    private parseVariable(token: AstToken): Expression {
+        const parts = token.text.split(/(\??\.)/);
+        let node: Expression = { type: 'Variable', name: parts[0], range: this.range(token.start, token.start + parts[0].length) },
+            offset = token.start + parts[0].length,
+            i;
+
+        // Parts alternate between the dots and the keys
+        for (i = 1; i < parts.length; i += 2) {
+            const dot = parts[i],
+                part = parts[i + 1];
+
+            if (!part) {
+                this.fail('Unexpected dot', offset);
+            }
+            node = {
+                type: 'Member',
+                object: node,
+                property: { type: 'Literal', value: part, raw: part, range: this.range(offset + dot.length, offset + dot.length + part.length) },
+                computed: false,
+                range: this.range(token.start, offset + dot.length + part.length)
+            };
+            if (dot === '?.') {
+                node.optional = true;
+            }
+            offset += dot.length + part.length;
+        }
+
+        return node;
+    }
+
+    /**
+     * Parse the expressions up to the closing token, separated by commas. A trailing comma is allowed.
+     *
+     * @param close   Token type that ends the list.
+     * @return {object}   The expressions as `items`, and the offset after the closing token as `end`.
+     */
+    private parseList(close: number): { items: Expression[], end: number } {
+        const items: Expression[] = [];
+        let token;
+
+        while ((token = this.peek()) && token.type !== close) {
+            items.push(this.parseExpression(0));
+            if (this.peek() && this.peek().type === _t.COMMA) {
+                this.index += 1;
+            } else if (!this.peek() || this.peek().type !== close) {
+                this.unexpected(this.peek());
+            }
+        }
+
+        return { items: items, end: this.expect(close).end };
+    }
+
+    private parseObject(open: AstToken): ObjectNode {
+        const properties: PropertyNode[] = [];
+        let token, key: LiteralNode, value: Expression;
+
+        while ((token = this.next()) && token.type !== _t.CURLYCLOSE) {
+            if (token.type === _t.STRING || token.type === _t.NUMBER || (token.type === _t.VAR && token.text.indexOf('.') === -1)) {
+                key = { type: 'Literal', value: (token.type === _t.STRING) ? token.text.slice(1, -1) : token.text, raw: token.text, range: this.range(token.start, token.end) };
+            } else {
+                this.unexpected(token);
+            }
+            this.expect(_t.COLON);
+            value = this.parseExpression(0);
+            properties.push({ type: 'Property', key: key, value: value, range: this.range(token.start, value.range.end.offset) });
+            if (this.peek() && this.peek().type === _t.COMMA) {
+                this.index += 1;
+            } else if (!this.peek() || this.peek().type !== _t.CURLYCLOSE) {
+                this.unexpected(this.peek());
+            }
+        }
+        if (!token) {
+            this.unexpected(token);
+        }
+
+        return { type: 'Object', properties: properties, range: this.range(open.start, token.end) };
+    }
+
+    /**
+     * Parse a key in square brackets, or a slice as in `items[1:3]`.
+     *
+     * @param object  Expression that the brackets follow.
+     * @return {Expression}
+     */
+    private parseIndex(object: Expression): Expression {
+        const parts: Expression[] = [null];
+        let token;
+
+        while ((token = this.peek()) && token.type !== _t.BRACKETCLOSE) {
+            if (token.type === _t.COLON && parts.length < 3) {
+                this.index += 1;
+                parts.push(null);
+            } else if (parts[parts.length - 1] === null) {
+                parts[parts.length - 1] = this.parseExpression(0);
+            } else {
+                this.unexpected(token);
+            }
+        }
+        token = this.expect(_t.BRACKETCLOSE);
+
+        if (parts.length === 1) {
+            if (!parts[0]) {
+                this.unexpected(token);
+            }
+            return { type: 'Member', object: object, property: parts[0], computed: true, range: this.range(object.range.start.offset, token.end) };
+        }
+
+        return {
+            type: 'Slice',
+            object: object,
+            start: parts[0],
+            stop: parts[1],
+            step: parts[2] || null,
+            range: this.range(object.range.start.offset, token.end)
+        };
+    }
+}
+
+/**
+ * Get the positions of the offsets in a source.
+ *
+ * @param source  Template source.
+ * @return {function}   Get the position of an offset.
+ * @private
+ */
+function locator(source: string): (offset: number) => Position {
+    const starts = [0];
+    let i = source.indexOf('\n');
+
+    while (i !== -1) {
+        starts.push(i + 1);
+        i = source.indexOf('\n', i + 1);
+    }
+
+    return function (offset: number): Position {
+        let low = 0,
+            high = starts.length - 1,
+            mid;
+
+        while (low < high) {
+            mid = Math.ceil((low + high) / 2);
+            if (starts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { offset: offset, line: low + 1, column: offset - starts[low] + 1 };
+    };
+}
+
+/**
+ * Find the contents of a tag or variable, without its controls, whitespace control and surrounding whitespace.
+ *
+ * @param chunk   Tag or variable source, with its controls.
+ * @param offset  Offset of the chunk in the template source.
+ * @param open    Open control.
+ * @param close   Close control.
+ * @param [keep]  Whether `+` keeps the whitespace, as it does for tags.
+ * @return {object}   The contents as `str` and their offset as `offset`, with the whitespace control flags.
+ * @private
+ */
+function unwrap(chunk: string, offset: number, open: string, close: string, keep?: boolean): { str: string, offset: number, stripBefore: boolean, stripAfter: boolean, keepBefore?: boolean, keepAfter?: boolean } {
+    let start = open.length,
+        end = chunk.length - close.length;
+    const stripBefore = chunk.charAt(start) === '-',
+        stripAfter = end - 1 > start && chunk.charAt(end - 1) === '-',
+        keepBefore = keep && chunk.charAt(start) === '+',
+        keepAfter = keep && end - 1 > start && chunk.charAt(end - 1) === '+';
+
+    start += (stripBefore || keepBefore) ? 1 : 0;
+    end -= (stripAfter || keepAfter) ? 1 : 0;
+    while (start < end && /\s/.test(chunk.charAt(start))) {
+        start += 1;
+    }
+    while (end > start && /\s/.test(chunk.charAt(end - 1))) {
+        end -= 1;
+    }
+
+    const inner: { str: string, offset: number, stripBefore: boolean, stripAfter: boolean, keepBefore?: boolean, keepAfter?: boolean } = { str: chunk.slice(start, end), offset: offset + start, stripBefore: stripBefore, stripAfter: stripAfter };
+
+    if (keepBefore) {
+        inner.keepBefore = true;
+    }
+    if (keepAfter) {
+        inner.keepAfter = true;
+    }
+    return inner;
+}
+
+/**
+ * Name of the tag of a node with a body.
+ * @private
+ */
+function tagName(node: TagNode | BlockNode): string {
+    return (node.type === 'Block') ? 'block' : node.name;
+}
+
+/**
+ * Parse a template source into a JSON serializable tree, for tools that need to read templates.
+ * Tags are checked against the known tags, the arguments of a tag are read as expressions and symbols in order.
+ *
+ * @param  source   Swig template source.
+ * @param  opts     Swig options object.
+ * @param  tags     Keyed object of tags.
+ * @return {TemplateAst}
+ */
+const parse = function (source: string, opts: SwigOptions, tags: Tags): TemplateAst {
+    source = source.replace(/\r\n/g, '\n');
+    const [tagOpen, tagClose] = opts.tagControls,
+        [varOpen, varClose] = opts.varControls,
+        [cmtOpen, cmtClose] = opts.cmtControls,
+        locate = locator(source),
+        stack: (TagNode | BlockNode)[] = [],
+        root: TemplateAst = { type: 'Template', filename: opts.filename, body: [], range: range(0, source.length) };
+    let offset = 0,
+        inRaw = false;
+
+    function range(start: number, end: number): SourceRange {
+        return { start: locate(start), end: locate(end) };
+    }
+
+    function fail(message: string, at: number): never {
+        const position = locate(at);
+
+        throw new TemplateError(message, { filename: opts.filename, line: position.line, column: position.column, phase: 'parse', source: source });
+    }
+
+    /**
+     * Add a node to the body of the open tag. The chunks of a raw tag are added as a single text.
+     *
+     * @param node    Template node.
+     */
+    function append(node: AstNode) {
+        const body = stack.length ? stack[stack.length - 1].body : root.body,
+            last = body[body.length - 1];
+
+        if (node.type === 'Text' && last && last.type === 'Text') {
+            last.value += node.value;
+            last.range.end = node.range.end;
+            return;
+        }
+        body.push(node);
+    }
+
+    /**
+     * Copy the `+` whitespace control of a tag to its node.
+     *
+     * @param node    Tag, block or end tag node.
+     * @param inner   Contents of the tag, with their whitespace control.
+     */
+    function keep(node: TagNode | BlockNode | EndTagNode, inner: { keepBefore?: boolean, keepAfter?: boolean }) {
+        if (inner.keepBefore) {
+            node.keepBefore = true;
+        }
+        if (inner.keepAfter) {
+            node.keepAfter = true;
+        }
+    }
+
+    /**
+     * Read a tag. Tags that end are opened on the stack, end tags close them.
+     *
+     * @param chunk   Tag source.
+     * @param start   Offset of the tag in the source.
+     * @param inner   Contents of the tag, with their offset and whitespace control.
+     * @param [line]  Whether the tag is a line statement.
+     * @return {boolean}  False for a tag inside of a raw tag, which is text.
+     */
+    function parseTag(chunk: string, start: number, inner: { str: string, offset: number, stripBefore: boolean, stripAfter: boolean, keepBefore?: boolean, keepAfter?: boolean }, line?: boolean): boolean {
+        const end = start + chunk.length,
+            name = inner.str.split(/\s+/)[0],
+            open = stack[stack.length - 1];
+        let node: TagNode | BlockNode;
+
+        if (name.indexOf('end') === 0) {
+            if (open && tagName(open) === name.replace(/^end/, '')) {
+                open.end = { stripBefore: inner.stripBefore, stripAfter: inner.stripAfter, range: range(start, end) };
+                if (line) {
+                    open.end.lineStatement = true;
+                }
+                keep(open.end, inner);
+                open.range = range(open.range.start.offset, end);
+                inRaw = false;
+                stack.pop();
+                return true;
+            }
+            if (!inRaw) {
+                fail(`Unexpected end of tag "${name.replace(/^end/, '')}"`, start);
+            }
+        }
+
+        if (inRaw) {
+            return false;
+        }
+
+        if (!tags.hasOwnProperty(name)) {
+            fail(`Unexpected tag "${inner.str}"`, start);
+        }
+
+        if (name === 'block') {
+            node = { type: 'Block', name: inner.str.slice(name.length).trim(), body: [], end: null, stripBefore: inner.stripBefore, stripAfter: inner.stripAfter, range: range(start, end) };
+        } else {
+            node = {
+                type: 'Tag',
+                name: name,
+                args: new ExpressionParser(inner.str.slice(name.length), inner.offset + name.length, locate, fail).parseArguments(),
+                stripBefore: inner.stripBefore,
+                stripAfter: inner.stripAfter,
+                range: range(start, end)
+            };
+            if (tags[name].ends) {
+                node.body = [];
+                node.end = null;
+            }
+        }
+        if (line) {
+            node.lineStatement = true;
+        }
+        keep(node, inner);
+
+        append(node);
+        if (tags[name].ends) {
+            stack.push(node);
+        }
+        inRaw = (name === 'raw');
+
+        return true;
+    }
+
+    utils.each(parser.split(source, opts), (chunk: string) => {
+        const start = offset,
+            end = offset + chunk.length;
+        let inner, statement;
+
+        offset = end;
+        if (!chunk) {
+            return;
+        }
+
+        if (!inRaw && chunk.startsWith(varOpen) && chunk.endsWith(varClose)) {
+            inner = unwrap(chunk, start, varOpen, varClose);
+            append({
+                type: 'Output',
+                expression: new ExpressionParser(inner.str, inner.offset, locate, fail).parseOne(),
+                stripBefore: inner.stripBefore,
+                stripAfter: inner.stripAfter,
+                range: range(start, end)
+            });
+        } else if (chunk.startsWith(tagOpen) && chunk.endsWith(tagClose) && parseTag(chunk, start, unwrap(chunk, start, tagOpen, tagClose, true))) {
+            return;
+        } else if (locate(start).column === 1 && (statement = parser.lineStatement(chunk, opts)) &&
+            parseTag(chunk, start, { str: statement.str, offset: start + statement.offset, stripBefore: false, stripAfter: false }, true)) {
+            return;
+        } else if (!inRaw && chunk.startsWith(cmtOpen) && chunk.endsWith(cmtClose)) {
+            append({ type: 'Comment', value: chunk.slice(cmtOpen.length, -cmtClose.length), range: range(start, end) });
+        } else if (!inRaw && parser.isLineComment(chunk, opts)) {
+            append({ type: 'Comment', value: chunk.slice(chunk.indexOf(opts.lineCommentPrefix) + opts.lineCommentPrefix.length), lineComment: true, range: range(start, end) });
+        } else {
+            append({ type: 'Text', value: chunk, range: range(start, end) });
+        }
+    });
+
+    // Tags that are not closed end with the source
+    utils.each(stack, (node: TagNode | BlockNode) => {
+        node.range = range(node.range.start.offset, source.length);
+    });
+
+    return root;
+}
+
+/**
+ * Print an expression node as template source, with parentheses where the operators need them.
+ *
+ * @param node      Expression node.
+ * @param [power=0] Binding power of the operator around the expression.
+ * @return {string}
+ * @private
+ */
+function printExpression(node: Expression, power: number = 0): string {
+    const list = (items: Expression[]) => utils.map(items, (item) => printExpression(item)).join(', ');
+    let out: string,
+        own = _postfixPower,
+        rightward;
+
+    switch (node.type) {
+        case 'Literal':
+            out = (node.raw !== undefined) ? node.raw : JSON.stringify(node.value);
+            break;
+        case 'Interpolation':
+            out = '"' + utils.map(node.parts, (part) => {
+                return (part.type === 'Literal') ? part.raw : '#{' + printExpression(part) + '}';
+            }).join('') + '"';
+            break;
+        case 'Variable':
+            out = node.name;
+            break;
+        case 'Member':
+            out = printExpression(node.object, _postfixPower) +
+                (node.computed ? '[' + printExpression(node.property) + ']' : (node.optional ? '?.' : '.') + (node.property as LiteralNode).value);
+            break;
+        case 'Slice':
+            out = printExpression(node.object, _postfixPower) + '[' +
+                (node.start ? printExpression(node.start) : '') + ':' +
+                (node.stop ? printExpression(node.stop) : '') +
+                (node.step ? ':' + printExpression(node.step) : '') + ']';
+            break;
+        case 'Call':
+            out = printExpression(node.callee, _postfixPower) + '(' + list(node.arguments) + ')';
+            break;
+        case 'Filter':
+            out = printExpression(node.input, _postfixPower) + '|' + node.name +
+                (node.arguments.length ? '(' + list(node.arguments) + ')' : '');
+            break;
+        case 'Test':
+            out = printExpression(node.input, _postfixPower) + ' is ' + (node.negated ? 'not ' : '') + node.name +
+                (node.arguments.length ? '(' + list(node.arguments) + ')' : '');
+            break;
+        case 'Unary':
+            own = _unaryPower;
+            out = node.operator + (/\w$/.test(node.operator) ? ' ' : '') + printExpression(node.argument, own);
+            break;
+        case 'Binary':
+            own = _powers[node.operator] || _unaryPower - 1;
+            // `??` groups to the right, the other operators to the left
+            rightward = (node.operator === '??') ? 1 : 0;
+            out = printExpression(node.left, own + rightward) + ((node.operator === '..') ? '..' : ' ' + node.operator + ' ') + printExpression(node.right, own + 1 - rightward);
+            break;
+        case 'Conditional':
+            own = _powers['if'];
+            out = printExpression(node.consequent, own + 1) + ' if ' + printExpression(node.test, own + 1) + ' else ' + printExpression(node.alternate, own);
+            break;
+        case 'Assignment':
+            own = _powers['='];
+            out = printExpression(node.target, own + 1) + ' ' + node.operator + ' ' + printExpression(node.value, own);
+            break;
+        case 'Array':
+            out = '[' + list(node.elements) + ']';
+            break;
+        case 'Tuple':
+            out = '(' + list(node.elements) + ')';
+            break;
+        case 'Object':
+            out = '{' + utils.map(node.properties, (property) => property.key.raw + ': ' + printExpression(property.value)).join(', ') + '}';
+            break;
+        case 'Symbol':
+            out = node.value;
+            break;
+    }
+
+    return (own < power) ? '(' + out + ')' : out;
+}
+
+/**
+ * Print a template node as template source.
+ *
+ * @param node    Template node.
+ * @param opts    Swig options object.
+ * @return {string}
+ * @private
+ */
+function printNode(node: TemplateAst | AstNode, opts: SwigOptions): string {
+    const [tagOpen, tagClose] = opts.tagControls,
+        [varOpen, varClose] = opts.varControls,
+        [cmtOpen, cmtClose] = opts.cmtControls,
+        body = (nodes: AstNode[]) => utils.map(nodes, (child) => printNode(child, opts)).join(''),
+        tag = (str: string, strip: EndTagNode) => (strip.lineStatement && opts.lineStatementPrefix) ?
+            opts.lineStatementPrefix + ' ' + str + '\n' :
+            tagOpen + (strip.stripBefore ? '-' : strip.keepBefore ? '+' : '') + ' ' + str + ' ' + (strip.stripAfter ? '-' : strip.keepAfter ? '+' : '') + tagClose;
+    let args = '';
+
+    switch (node.type) {
+        case 'Template':
+            return body(node.body);
+        case 'Text':
+            return node.value;
+        case 'Comment':
+            return (node.lineComment && opts.lineCommentPrefix) ? opts.lineCommentPrefix + node.value : cmtOpen + node.value + cmtClose;
+        case 'Output':
+            return varOpen + (node.stripBefore ? '-' : '') + ' ' +
+                (node.expression ? printExpression(node.expression) + ' ' : '') +
+                (node.stripAfter ? '-' : '') + varClose;
+        case 'Block':
+            return tag('block ' + node.name, node) + body(node.body) + (node.end ? tag('endblock', node.end) : '');
+        case 'Tag':
+            utils.each(node.args, (arg: Expression) => {
+                args += (arg.type === 'Symbol' && arg.value === ',') ? ',' : ' ' + printExpression(arg);
+            });
+            return tag(node.name + args, node) +
+                (node.body ? body(node.body) : '') +
+                (node.end ? tag('end' + node.name, node.end) : '');
+    }
+}
+
+/**
+ * Print a template tree as source to compile. Tags, output and tag arguments are moved to the lines and columns of their source ranges,
+ * with whitespace within their controls, so that errors point at the template that the tree was read from.
+ * When a changed tree is behind its source ranges, an empty comment before a tag or output takes it to the line of the tag.
+ *
+ * @param  tree   Template tree.
+ * @param  opts   Swig options object.
+ * @return {string}   Swig template source.
+ */
+const layout = function (tree: TemplateAst, opts: SwigOptions): string {
+    const [tagOpen, tagClose] = opts.tagControls,
+        [varOpen, varClose] = opts.varControls,
+        [cmtOpen, cmtClose] = opts.cmtControls;
+    let out = '',
+        line = 1,
+        column = 1;
+
+    function write(str: string) {
+        const lines = str.split('\n');
+
+        line += lines.length - 1;
+        column = (lines.length > 1) ? lines[lines.length - 1].length + 1 : column + str.length;
+        out += str;
+    }
+
+    // Move forward to a position with whitespace, nodes without a range stay where they are
+    function moveTo(position: Position) {
+        if (!position) {
+            return;
+        }
+        if (position.line > line) {
+            write(new Array(position.line - line + 1).join('\n'));
+        }
+        if (position.line === line && position.column > column) {
+            write(new Array(position.column - column + 1).join(' '));
+        }
+    }
+
+    // Catch up with the line of a tag or output with an empty comment, as whitespace outside of the controls is output
+    function catchUp(range: SourceRange) {
+        if (range && range.start.line > line) {
+            write(cmtOpen + new Array(range.start.line - line + 1).join('\n') + new Array(Math.max(range.start.column - cmtClose.length, 1)).join(' ') + cmtClose);
+        }
+    }
+
+    // Position of the close control of a tag or output that ends at a position
+    function closeAt(end: Position, close: string, flag: boolean): Position {
+        return end ? { offset: end.offset - close.length, line: end.line, column: end.column - close.length - (flag ? 1 : 0) } : null;
+    }
+
+    // End of a tag, the range of a tag with a body goes on to its end tag
+    function tagEnd(node: TagNode | BlockNode | EndTagNode): Position {
+        const next = ((node as TagNode).body && (node as TagNode).body.length) ? (node as TagNode).body[0] : (node as TagNode).end;
+
+        if (!(node as TagNode).body) {
+            return node.range && node.range.end;
+        }
+
+        return (next && next.range) ? next.range.start : null;
+    }
+
+    function tag(node: TagNode | BlockNode | EndTagNode, name: string, args: Expression[]) {
+        const before = node.stripBefore ? '-' : node.keepBefore ? '+' : '',
+            after = node.stripAfter ? '-' : node.keepAfter ? '+' : '';
+
+        if (node.lineStatement && opts.lineStatementPrefix) {
+            write(opts.lineStatementPrefix + ' ' + name + utils.map(args, (arg) => (arg.type === 'Symbol' && arg.value === ',') ? ',' : ' ' + printExpression(arg)).join('') + '\n');
+            return;
+        }
+        catchUp(node.range);
+        write(tagOpen + before + ' ' + name);
+        utils.each(args, (arg: Expression) => {
+            if (arg.type === 'Symbol' && arg.value === ',') {
+                write(',');
+                return;
+            }
+            write(' ');
+            moveTo(arg.range && arg.range.start);
+            write(printExpression(arg));
+        });
+        write(' ');
+        moveTo(closeAt(tagEnd(node), tagClose, !!after));
+        write(after + tagClose);
+    }
+
+    function body(nodes: AstNode[]) {
+        utils.each(nodes, (node: AstNode) => {
+            switch (node.type) {
+                case 'Text':
+                    write(node.value);
+                    break;
+                case 'Comment':
+                    write((node.lineComment && opts.lineCommentPrefix) ? opts.lineCommentPrefix + node.value : cmtOpen + node.value + cmtClose);
+                    break;
+                case 'Output':
+                    catchUp(node.range);
+                    write(varOpen + (node.stripBefore ? '-' : '') + ' ');
+                    if (node.expression) {
+                        moveTo(node.expression.range && node.expression.range.start);
+                        write(printExpression(node.expression) + ' ');
+                    }
+                    moveTo(closeAt(node.range && node.range.end, varClose, node.stripAfter));
+                    write((node.stripAfter ? '-' : '') + varClose);
+                    break;
+                case 'Block':
+                    tag(node, 'block ' + node.name, []);
+                    body(node.body);
+                    if (node.end) {
+                        tag(node.end, 'endblock', []);
+                    }
+                    break;
+                case 'Tag':
+                    tag(node, node.name, node.args);
+                    if (node.body) {
+                        body(node.body);
+                    }
+                    if (node.end) {
+                        tag(node.end, 'end' + node.name, []);
+                    }
+                    break;
+            }
+        });
+    }
+
+    body(tree.body);
+
+    return out;
+}
+
+/**
+ * Print a template or expression node back to template source. Parsing the output gives the same tree,
+ * without the whitespace and parentheses that the operators do not need.
+ *
+ * @param  node   Template, template node or expression node.
+ * @param  opts   Swig options object.
+ * @return {string}   Swig template source.
+ */
+const print = function (node: TemplateAst | AstNode | Expression, opts: SwigOptions): string {
+    switch (node.type) {
+        case 'Template':
+        case 'Text':
+        case 'Comment':
+        case 'Output':
+        case 'Tag':
+        case 'Block':
+            return printNode(node as TemplateAst | AstNode, opts);
+    }
+
+    return printExpression(node as Expression);
+}
+
+export default {
+    parse: parse,
+    print: print,
+    layout: layout
+}
@@ -0,0 +1,196 @@
+/**
+ * The step of the template life cycle an error happened in.
+ */
+export type TemplatePhase = 'lex' | 'parse' | 'compile' | 'render';
+
+/**
+ * Location and context of a template error. All keys are optional.
+ *
+ * @export
+ * @interface TemplateErrorDetails
+ */
+export interface TemplateErrorDetails {
+    /** Template file the error occurred in. */
+    filename?: string;
+    /** Line number in the template, starting at 1. */
+    line?: number;
+    /** Column number in the template, starting at 1. */
+    column?: number;
+    /** Step of the template life cycle the error happened in. */
+    phase?: TemplatePhase;
+    /** Chain of templates that extend, include or import the one the error occurred in. */
+    templateStack?: string[];
+    /** Template source, used to render the code frame. */
+    source?: string;
+    /** Extra explanation added after the location. */
+    hint?: string;
+    /** Original error, for errors thrown while rendering. */
+    cause?: Error;
+}
+
+/**
+ * How bad a diagnostic is. Errors stop the template from compiling, warnings do not.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a template by `swig.check`.
+ *
+ * @export
+ * @interface Diagnostic
+ */
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    /** Message without the location. */
+    message: string;
+    filename?: string;
+    /** Line number in the template, starting at 1. */
+    line?: number;
+    /** Column number in the template, starting at 1. */
+    column?: number;
+    phase: TemplatePhase;
+}
+
+/**
+ * Number of lines shown before and after the error line in a code frame.
+ * @private
+ */
+const frameLines = 2;
+
+/**
+ * Render the lines around a template location, marking the line and column.
+ *
+ * @param source    Template source.
+ * @param line      Line number, starting at 1.
+ * @param [column]  Column number, starting at 1.
+ * @return {string}
+ * @private
+ */
+function codeFrame(source: string, line: number, column?: number): string {
+    const lines = source.replace(/\r\n/g, '\n').split('\n'),
+        start = Math.max(line - frameLines, 1),
+        end = Math.min(line + frameLines, lines.length),
+        width = String(end).length;
+    let out = [], i, gutter;
+
+    for (i = start; i <= end; i += 1) {
+        gutter = ' ' + (Array(width + 1).join(' ') + i).slice(-width) + ' | ';
+        out.push((i === line ? '>' : ' ') + gutter + lines[i - 1]);
+        if (i === line && column) {
+            out.push(' ' + gutter.replace(/\d/g, ' ') + Array(column).join(' ') + '^');
+        }
+    }
+
+    return out.join('\n');
+}
+
+/**
+ * Error thrown for problems in a template, while it is lexed, parsed, compiled or rendered.
+ * The message contains the line and file, the same information is available in separate properties.
+ *
+ * @example
+ * try {
+ *   swig.render('{{ a|nope }}', { filename: 'page.html' });
+ * } catch (err) {
+ *   err.filename;  // => 'page.html'
+ *   err.line;      // => 1
+ *   err.phase;     // => 'parse'
+ *   err.codeFrame; // => '> 1 | {{ a|nope }}'
+ * }
+ *
+ * @export
+ * @class TemplateError
+ */
+export class TemplateError extends Error {
+    /** Error message without the location. */
+    reason: string;
+    filename: string;
+    line: number;
+    column: number;
+    phase: TemplatePhase;
+    templateStack: string[];
+    /** Template lines around the error, with the error line marked. */
+    codeFrame: string;
+    /** Original error, for errors thrown while rendering. */
+    cause: Error;
+    private hint: string;
+
+    /**
+     * Creates an instance of TemplateError.
+     *
+     * @param reason        Error message without the location.
+     * @param [details={}]  Location and context of the error.
+     */
+    constructor(reason: string, details: TemplateErrorDetails = {}) {
+        super(reason);
+        this.name = 'TemplateError';
+        this.reason = reason;
+        this.hint = details.hint;
+        this.cause = details.cause;
+        this.phase = details.phase || 'parse';
+        this.templateStack = details.templateStack ? details.templateStack.slice(0) : [];
+        this.locate(details);
+    }
+
+    /**
+     * Fill in location details that are not known yet, and rebuild the message.
+     *
+     * @param details   Location and context of the error.
+     * @return {TemplateError}
+     */
+    locate(details: TemplateErrorDetails): this {
+        const previous = this.message,
+            stack = this.stack;
+
+        this.filename = this.filename || details.filename;
+        this.line = this.line || details.line;
+        this.column = this.column || details.column;
+        if (this.filename && !this.templateStack.length) {
+            this.templateStack.push(this.filename);
+        }
+        if (!this.codeFrame && details.source && this.line) {
+            this.codeFrame = codeFrame(details.source, this.line, this.column);
+        }
+
+        this.message = this.reason +
+            (this.line ? ' on line ' + this.line : '') +
+            (this.filename ? ' in file ' + this.filename : '') + '.' +
+            (this.hint ? ' ' + this.hint : '');
+        if (stack && previous !== this.message) {
+            this.stack = stack.replace(previous, this.message);
+        }
+
+        return this;
+    }
+
+    /**
+     * Describe the error as a diagnostic, for tools that list every problem of a template.
+     *
+     * @param [severity='error']
+     * @return {Diagnostic}
+     */
+    toDiagnostic(severity: DiagnosticSeverity = 'error'): Diagnostic {
+        return {
+            severity: severity,
+            message: this.reason,
+            filename: this.filename,
+            line: this.line,
+            column: this.column,
+            phase: this.phase
+        };
+    }
+
+    /**
+     * Record a template that extends, includes or imports the one the error occurred in.
+     *
+     * @param filename  Template file name.
+     * @return {TemplateError}
+     */
+    within(filename: string): this {
+        if (filename && this.templateStack[0] !== filename) {
+            this.templateStack.unshift(filename);
+        }
+
+        return this;
+    }
+}
@@ -1,9 +1,23 @@
 import utils from './utils';
 
+/**
+ * Place in a template source. Offsets start at 0, lines and columns at 1.
+ * Sources are read with `\n` line endings, as they are parsed.
+ */
+export interface Position {
+    offset: number;
+    line: number;
+    column: number;
+}
+
 export interface LexerToken {
     match: string;
     type: number;
     length?: number;
+    start?: number;
+    end?: number;
+    line?: number;
+    column?: number;
 }
 
 /**
@@ -12,6 +26,10 @@ export interface LexerToken {
  * @property {string} match     The string that was matched.
  * @property {number} type      Lexer type enum.
  * @property {number} length    Length of the original string processed.
+ * @property {number} start     Offset of the token in the template source.
+ * @property {number} end       Offset after the token in the template source, without the whitespace after it.
+ * @property {number} line      Line of the start of the token, starting at 1.
+ * @property {number} column    Column of the start of the token, starting at 1.
  */
 export enum TYPES {
     /** Whitesapce */
@@ -70,11 +88,112 @@ export enum TYPES {
     /** End of a method
      * Currently unused
     METHODEND= 26, */
+    /** Inline condition, `?` or `if` */
+    CONDITIONAL = 27,
+    /** Alternative of an inline condition, `else` */
+    CONDITIONALELSE = 28,
+    /** Range of numbers, `..` */
+    RANGE = 29,
+    /** String concatenation, `~` */
+    CONCAT = 30,
+    /** Test, `is name(` or `is not name(` */
+    TEST = 31,
+    /** Test with no arguments */
+    TESTEMPTY = 32,
+    /** Null coalescing, `??` */
+    NULLISH = 33,
     /** Unknown type */
     UNKNOWN = 100
 };
 
-const rules = [
+/**
+ * Find the next `#{ ... }` interpolation in the body of a string literal.
+ * Braces are counted to find its end, braces in strings within the expression are skipped.
+ *
+ * @example
+ * findInterpolation('a #{ {b: "}"}.b } c', 0);
+ * // => { index: 2, end: 17, expression: ' {b: "}"}.b ' }
+ *
+ * @param  body   Text of the string literal.
+ * @param  from   Offset to start looking at.
+ * @return {object}   Offsets of the interpolation, or null when there is none that is closed.
+ */
+export function findInterpolation(body: string, from: number): { index: number, end: number, expression: string } {
+    const index = body.indexOf('#{', from);
+    let depth = 0,
+        quote = '',
+        i,
+        c;
+
+    if (index === -1) {
+        return null;
+    }
+
+    for (i = index + 2; i < body.length; i += 1) {
+        c = body.charAt(i);
+        if (quote) {
+            if (c === '\\') {
+                i += 1;
+            } else if (c === quote) {
+                quote = '';
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === '{') {
+            depth += 1;
+        } else if (c === '}') {
+            if (!depth) {
+                return { index: index, end: i + 1, expression: body.slice(index + 2, i) };
+            }
+            depth -= 1;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Read a double quoted string with `#{ ... }` interpolations from the start of a chunk.
+ * The string does not end at a quote within an interpolation, as in `"#{ "a" ~ b }"`.
+ *
+ * @param  str   String chunk.
+ * @return {string[]}   The string literal, or null when the chunk does not start with one.
+ * @private
+ */
+function readInterpolated(str: string): string[] {
+    let found,
+        i,
+        c;
+
+    if (str.charAt(0) !== '"') {
+        return null;
+    }
+
+    for (i = 1; i < str.length; i += 1) {
+        c = str.charAt(i);
+        if (c === '\\') {
+            i += 1;
+        } else if (c === '"') {
+            return [str.slice(0, i + 1)];
+        } else if (c === '#' && str.charAt(i + 1) === '{' && (found = findInterpolation(str, i)) !== null) {
+            i = found.end - 1;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * A lexer rule. Each of its patterns is a regular expression, or a function that reads the match from the start of a chunk.
+ */
+interface Rule {
+    type: TYPES;
+    regex: (RegExp | ((str: string) => string[]))[];
+    idx?: number;
+    replace?: { [match: string]: string };
+}
+
+const rules: Rule[] = [
     {
         type: TYPES.WHITESPACE,
         regex: [
@@ -85,6 +204,7 @@ const rules = [
         type: TYPES.STRING,
         regex: [
             /^""/,
+            readInterpolated,
             /^".*?[^\\]"/,
             /^''/,
             /^'.*?[^\\]'/
@@ -177,6 +297,39 @@ const rules = [
             'not': '!'
         }
     },
+    {
+        type: TYPES.TEST,
+        regex: [
+            /^is\s+((not\s+)?\w+)\(/
+        ],
+        idx: 1
+    },
+    {
+        type: TYPES.TESTEMPTY,
+        regex: [
+            /^is\s+((not\s+)?\w+)/
+        ],
+        idx: 1
+    },
+    {
+        type: TYPES.NULLISH,
+        regex: [
+            /^\?\?/
+        ]
+    },
+    {
+        type: TYPES.CONDITIONAL,
+        regex: [
+            /^\?/,
+            /^if\s+/
+        ]
+    },
+    {
+        type: TYPES.CONDITIONALELSE,
+        regex: [
+            /^else\s+/
+        ]
+    },
     {
         type: TYPES.BOOL,
         regex: [
@@ -188,7 +341,7 @@ const rules = [
     {
         type: TYPES.VAR,
         regex: [
-            /^[a-zA-Z_$]\w*((\.\$?\w*)+)?/,
+            /^[a-zA-Z_$]\w*((\??\.(?!\.)\$?\w*)+)?/,
             /^[a-zA-Z_$]\w*/
         ]
     },
@@ -222,6 +375,18 @@ const rules = [
             /^\}/
         ]
     },
+    {
+        type: TYPES.CONCAT,
+        regex: [
+            /^~/
+        ]
+    },
+    {
+        type: TYPES.RANGE,
+        regex: [
+            /^\.\./
+        ]
+    },
     {
         type: TYPES.DOTKEY,
         regex: [
@@ -255,7 +420,7 @@ function reader(str: string): LexerToken {
 
     rules.some((rule) => {
         return rule.regex.some((regex) => {
-            const match = str.match(regex);
+            const match = (typeof regex === 'function') ? regex(str) : str.match(regex);
             let normalized;
 
             if (!match) {
@@ -286,23 +451,51 @@ function reader(str: string): LexerToken {
     return matched;
 }
 
+/**
+ * Find the position after a text.
+ * 
+ * @param {Position} from   Position of the start of the text.
+ * @param {string} text     Text that follows the position.
+ * @return {Position}
+ */
+export function advance(from: Position, text: string): Position {
+    const lines = text.split('\n');
+
+    return {
+        offset: from.offset + text.length,
+        line: from.line + lines.length - 1,
+        column: (lines.length > 1) ? lines[lines.length - 1].length + 1 : from.column + text.length
+    };
+}
+
 /**
  * Read a string and break it into separate token types.
+ * Tokens have their position in the template source, for a string that starts at `from`.
  * 
  * @param {string} str  
+ * @param {Position} [from]   Position of the string in the template source, the start of the source by default.
  * @return {LexerToken[]}   Array of defined types, potentially stripped or replaced with more suitable content.
  * @private
  */
-const read = (str: string): LexerToken[] => {
-    let offset = 0,
+const read = (str: string, from: Position = { offset: 0, line: 1, column: 1 }): LexerToken[] => {
+    let index = 0,
+        at = from,
         tokens = [],
         substr,
-        match;
+        match,
+        text;
 
-    while (offset < str.length) {
-        substr = str.substring(offset);
+    while (index < str.length) {
+        substr = str.substring(index);
         match = reader(substr);
-        offset += match.length;
+        text = substr.substr(0, match.length);
+        match.start = at.offset;
+        match.end = at.offset + ((match.type === TYPES.WHITESPACE) ? text : text.replace(/\s+$/, '')).length;
+        match.line = at.line;
+        match.column = at.column;
+
+        at = advance(at, text);
+        index += match.length;
         tokens.push(match);
     }
 
@@ -1,23 +1,41 @@
 import utils from './utils';
-import lexer, { TYPES } from './lexer';
+import lexer, { TYPES, Position, advance, findInterpolation } from './lexer';
 import { Swig, SwigOptions } from './swig';
 import { LexerToken } from './lexer';
 import { Filters } from './filters';
+import builtinTests, { Tests } from './tests';
 import { Tags } from './tags';
+import { TemplateError, Diagnostic } from './error';
 
 const _t = TYPES;
+const _infix = { [_t.RANGE]: '..', [_t.CONCAT]: '~', [_t.NULLISH]: '??' };
+const _valueEnds = [_t.STRING, _t.NUMBER, _t.BOOL, _t.VAR, _t.DOTKEY, _t.FUNCTIONEMPTY, _t.FILTEREMPTY, _t.TESTEMPTY, _t.PARENCLOSE, _t.BRACKETCLOSE, _t.CURLYCLOSE];
+const _valueStarts = [_t.STRING, _t.NUMBER, _t.BOOL, _t.VAR, _t.FUNCTION, _t.FUNCTIONEMPTY, _t.NOT, _t.CURLYOPEN];
 const _reserved = ['break', 'case', 'catch', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'finally', 'for', 'function', 'if', 'in', 'instanceof', 'new', 'return', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with'];
 
 interface Parsers {
     [key: string]: Function;
 }
 
+/**
+ * How a variable reads when it is null or can not be read.
+ * `undef` hands a path that can not be read to `_undef`, `empty` reads it as "", and `keep` reads null and undefined as they are.
+ */
+export type Missing = 'undef' | 'empty' | 'keep';
+
 export interface Token {
     name?: string;
     args?: string[];
     content?: Token[];
     block?: boolean;
     ends?: boolean;
+    line?: number;
+    column?: number;
+    /** Offset of the tag or variable in the source, with its controls. */
+    start?: number;
+    /** Offset after the tag or variable in the source. */
+    end?: number;
+    filename?: string;
     compile: () => string
 }
 
@@ -39,6 +57,168 @@ function escapeRegExp(str: string) {
     return str.replace(/[\-\/\\\^$*+?.()|\[\]{}]/, '\\$&');
 }
 
+/**
+ * Find the edge of the expression next to `from`, walking in the direction of `step`.
+ * The walk ends before a token of `stops` outside of brackets, or before the end of the enclosing brackets.
+ * 
+ * @param tokens  Lexer tokens.
+ * @param from    Index of the first token of the walk.
+ * @param step    1 to walk forwards, -1 to walk backwards.
+ * @param stops   Token types that end the expression.
+ * @return {number}   Index of the token that ends the walk.
+ * @private
+ */
+function findEdge(tokens: LexerToken[], from: number, step: number, stops: number[]): number {
+    const openers = [_t.PARENOPEN, _t.FUNCTION, _t.FILTER, _t.TEST, _t.BRACKETOPEN, _t.CURLYOPEN, _t.RANGE, _t.CONCAT, _t.NULLISH],
+        closers = [_t.PARENCLOSE, _t.BRACKETCLOSE, _t.CURLYCLOSE];
+    let depth = 0,
+        pending = 0,
+        i,
+        type;
+
+    for (i = from; i >= 0 && i < tokens.length; i += step) {
+        type = tokens[i].type;
+        // Rewritten infix operators open a call, operators that are not rewritten yet do not
+        depth += (openers.indexOf(type) !== -1 && tokens[i].match !== _infix[type]) ? step : (closers.indexOf(type) !== -1) ? -step : 0;
+        if (depth < 0) {
+            break;
+        }
+        // Walking forwards, a `?` takes the next colon with it
+        if (step > 0 && depth === 0 && type === _t.CONDITIONAL && tokens[i].match === '?') {
+            pending += 1;
+        } else if (depth === 0 && pending && (type === _t.COLON || type === _t.CONDITIONALELSE)) {
+            pending -= 1;
+        } else if (depth === 0 && stops.indexOf(type) !== -1) {
+            break;
+        }
+    }
+
+    return i;
+}
+
+/**
+ * Check that a list of tokens has more than whitespace.
+ * 
+ * @param tokens  Lexer tokens.
+ * @return {boolean}
+ * @private
+ */
+function hasContent(tokens: LexerToken[]): boolean {
+    return tokens.some((token) => token.type !== _t.WHITESPACE);
+}
+
+/**
+ * Count the curly braces that are opened and not closed, outside of string literals.
+ * 
+ * @param str   Source of an expression.
+ * @return {number}
+ * @private
+ */
+function openCurlies(str: string): number {
+    const code = str.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '');
+
+    return (code.match(/\{/g) || []).length - (code.match(/\}/g) || []).length;
+}
+
+/**
+ * Rewrite an infix operator from `a op b` to a call to a `_utils` method, as `method(a, b<tail>)`.
+ * The operator is rewritten to a token with the method name as its match, that opens the call.
+ * An operator without a left or a right side is left alone, and rejected by the parser.
+ * 
+ * @param tokens  Tokens read by the Lexer.
+ * @param type    Token type of the operator.
+ * @param method  Name of the `_utils` method.
+ * @param stops   Token types that bind looser than the operator.
+ * @param [tail]  Tokens added to the right side.
+ * @return {LexerToken[]}   Tokens with the operator rewritten.
+ * @private
+ */
+function rewriteInfix(tokens: LexerToken[], type: number, method: string, stops: number[], tail: LexerToken[] = []): LexerToken[] {
+    let i = tokens.length - 1;
+
+    while (i >= 0) {
+        let start, end;
+
+        if (tokens[i].type === type && tokens[i].match === _infix[type]) {
+            start = findEdge(tokens, i - 1, -1, stops) + 1;
+            end = findEdge(tokens, i + 1, 1, stops);
+            if (hasContent(tokens.slice(start, i)) && hasContent(tokens.slice(i + 1, end))) {
+                tokens = tokens.slice(0, start).concat(
+                    [{ type: type, match: method }],
+                    tokens.slice(start, i),
+                    [{ type: _t.COMMA, match: ',' }],
+                    tokens.slice(i + 1, end),
+                    tail,
+                    [{ type: _t.PARENCLOSE, match: ')' }],
+                    tokens.slice(end)
+                );
+                i = tokens.length;
+            }
+        }
+        i -= 1;
+    }
+
+    return tokens;
+}
+
+/**
+ * Rewrite range literals from `a..b` to `_utils.range(a, b + 1)`, which counts up to and including `b`,
+ * and concatenations from `a ~ b` to `_utils.concat(a, b)`.
+ * Arithmetic binds tighter than both, comparisons and logic looser.
+ * Null coalescing, from `a ?? b` to `_utils.coalesce(a, b)`, binds looser than both and tighter than comparisons, as in `for x in a ?? []`.
+ * 
+ * @param tokens  Tokens read by the Lexer.
+ * @return {LexerToken[]}   Tokens with the operators rewritten.
+ * @private
+ */
+function rewriteOperators(tokens: LexerToken[]): LexerToken[] {
+    const stops = [_t.COMMA, _t.COLON, _t.ASSIGNMENT, _t.CONDITIONAL, _t.CONDITIONALELSE, _t.LOGIC, _t.COMPARATOR];
+
+    tokens = rewriteInfix(tokens, _t.RANGE, 'range', stops.concat(_t.CONCAT, _t.NULLISH), [{ type: _t.OPERATOR, match: '+' }, { type: _t.NUMBER, match: '1' }]);
+    tokens = rewriteInfix(tokens, _t.CONCAT, 'concat', stops.concat(_t.NULLISH));
+    // `a ?? b ?? c` groups to the right, so that `b` is also read as a left side
+    return rewriteInfix(tokens, _t.NULLISH, 'coalesce', stops.concat(_t.NULLISH));
+}
+
+/**
+ * Rewrite inline conditions from `a if b else c` to `b ? a : c`, so they can be parsed in order.
+ * An `if` without a matching `else` is left alone, for tags that have their own use for it.
+ * 
+ * @param tokens  Tokens read by the Lexer.
+ * @return {LexerToken[]}   Tokens with the inline conditions rewritten.
+ * @private
+ */
+function reorderConditionals(tokens: LexerToken[]): LexerToken[] {
+    let i = tokens.length - 1;
+
+    while (i >= 0) {
+        let token = tokens[i],
+            start,
+            alternative,
+            end;
+
+        if (token.type === _t.CONDITIONAL && token.match === 'if') {
+            alternative = findEdge(tokens, i + 1, 1, [_t.COMMA, _t.COLON, _t.CONDITIONALELSE]);
+            if (tokens[alternative] && tokens[alternative].type === _t.CONDITIONALELSE) {
+                start = findEdge(tokens, i - 1, -1, [_t.COMMA, _t.COLON, _t.ASSIGNMENT, _t.CONDITIONAL, _t.CONDITIONALELSE]) + 1;
+                end = findEdge(tokens, alternative + 1, 1, [_t.COMMA, _t.COLON]);
+                tokens = tokens.slice(0, start).concat(
+                    tokens.slice(i + 1, alternative),
+                    [{ type: _t.CONDITIONAL, match: '?' }],
+                    tokens.slice(start, i),
+                    [{ type: _t.CONDITIONALELSE, match: ':' }],
+                    tokens.slice(alternative + 1, end),
+                    tokens.slice(end)
+                );
+                i = tokens.length;
+            }
+        }
+        i -= 1;
+    }
+
+    return tokens;
+}
+
 /**
  * Parse strings of variables ang tags into tokens for future compilation.
  * 
@@ -51,12 +231,15 @@ export class TokenParser {
     filename: string;
     line: number;
     filters: Filters;
+    tests: Tests;
     escape: boolean | 'html' | 'js';
     private parsers: Parsers = {};
     private tokens: LexerToken[];
     private isLast: boolean = false;
     private prevToken: LexerToken;
     private autoescape: boolean;
+    private brackets: number[][] = [];
+    private variables: { [code: string]: (missing: Missing) => string } = {};
 
     /**
      * Creates an instance of TokenParser.
@@ -66,13 +249,15 @@ export class TokenParser {
      * @param autoescape  Whether or not this shuould be autoescaped.
      * @param line        Beginning line number for the firsr token. 
      * @param [filename]  Name of the file being parsed.
+     * @param [tests]     Keyed object of tests that may be used with `is`.
      */
-    constructor(tokens: LexerToken[], filters: Filters, autoescape: boolean, line: number, filename?: string) {
+    constructor(tokens: LexerToken[], filters: Filters, autoescape: boolean, line: number, filename?: string, tests: Tests = builtinTests) {
         this.line = line;
         this.filters = filters;
+        this.tests = tests;
         this.filename = filename;
         this.autoescape = this.escape = autoescape;
-        this.tokens = tokens;
+        this.tokens = reorderConditionals(rewriteOperators(tokens));
     }
 
     parse() {
@@ -91,7 +276,16 @@ export class TokenParser {
                 }
             }
             this.prevToken = prevToken;
-            this.parseToken(token);
+            this.line = token.line || this.line;
+            try {
+                this.parseToken(token);
+            } catch (err) {
+                // Point at the token itself, rather than the start of its tag or variable
+                if (err instanceof TemplateError && token.column) {
+                    err.locate({ column: token.column });
+                }
+                throw err;
+            }
         });
         if (this.parsers.end) {
             this.parsers.end.call(this);
@@ -99,14 +293,17 @@ export class TokenParser {
 
         if (this.escape) {
             this.filterApplyIdx = [0];
-            if (typeof this.escape === 'string') {
-                this.parseToken({ type: _t.FILTER, match: 'e' });
-                this.parseToken({ type: _t.COMMA, match: ',' });
-                this.parseToken({ type: _t.STRING, match: String(this.autoescape) });
-                this.parseToken({ type: _t.PARENCLOSE, match: ')' });
-            } else {
-                this.parseToken({ type: _t.FILTEREMPTY, match: 'e' });
-            }
+            utils.each((typeof this.escape === 'string') ? [
+                { type: _t.FILTER, match: 'e' },
+                { type: _t.COMMA, match: ',' },
+                { type: _t.STRING, match: String(this.autoescape) },
+                { type: _t.PARENCLOSE, match: ')' }
+            ] : [
+                { type: _t.FILTEREMPTY, match: 'e' }
+            ], (token: LexerToken) => {
+                this.parseToken(token);
+                this.prevToken = token;
+            });
         }
 
         return this.out;
@@ -157,7 +354,7 @@ export class TokenParser {
 
         if (lastState && prevToken &&
             lastState === _t.FILTER &&
-            prevTokenType === _t.FILTER &&
+            (prevTokenType === _t.FILTER || prevTokenType === _t.TEST) &&
             token.type !== _t.PARENCLOSE &&
             token.type !== _t.COMMA &&
             token.type !== _t.OPERATOR &&
@@ -166,6 +363,22 @@ export class TokenParser {
             this.out.push(', ');
         }
 
+        // Values of array and object literals are separated by commas, a signed number may still be subtracted
+        if ((lastState === _t.ARRAYOPEN || lastState === _t.COLON) &&
+            _valueEnds.indexOf(prevTokenType) !== -1 &&
+            _valueStarts.indexOf(token.type) !== -1 &&
+            !(token.type === _t.NUMBER && /^[+\-]/.test(match))) {
+            utils.throwError(`Missing comma before "${match}"`, this.line, this.filename);
+        }
+
+        // Elsewhere a value can not follow another without an operator between them
+        if (lastState !== _t.ARRAYOPEN && lastState !== _t.COLON &&
+            _valueEnds.indexOf(prevTokenType) !== -1 &&
+            _valueStarts.indexOf(token.type) !== -1 && token.type !== _t.NOT && token.type !== _t.CURLYOPEN &&
+            !(token.type === _t.NUMBER && /^[+\-]/.test(match))) {
+            utils.throwError(`Unexpected "${match}"`, this.line, this.filename);
+        }
+
         if (lastState && lastState === _t.METHODOPEN) {
             this.state.pop();
             if (token.type !== _t.PARENCLOSE) {
@@ -179,7 +392,7 @@ export class TokenParser {
 
             case _t.STRING:
                 this.filterApplyIdx.push(this.out.length);
-                this.out.push(match.replace(/\\/g, '\\\\'));
+                this.out.push(this.parseString(match, token));
                 break;
 
             case _t.NUMBER:
@@ -194,6 +407,7 @@ export class TokenParser {
                 }
                 this.escape = this.filters[match].safe ? false : this.escape;
                 this.out.splice(this.filterApplyIdx[this.filterApplyIdx.length - 1], 0, '_filters["' + match + '"](');
+                this.allowUndefined(match, this.filterApplyIdx[this.filterApplyIdx.length - 1] + 1);
                 this.state.push(token.type);
                 break;
 
@@ -203,14 +417,45 @@ export class TokenParser {
                 }
                 this.escape = this.filters[match].safe ? false : this.escape;
                 this.out.splice(this.filterApplyIdx[this.filterApplyIdx.length - 1], 0, '_filters["' + match + '"](');
+                this.allowUndefined(match, this.filterApplyIdx[this.filterApplyIdx.length - 1] + 1);
                 this.out.push(')');
                 break;
 
+            case _t.RANGE:
+            case _t.CONCAT:
+            case _t.NULLISH:
+                if (match === _infix[token.type]) {
+                    utils.throwError(token.type === _t.RANGE ? 'Unexpected range' : token.type === _t.CONCAT ? 'Unexpected concatenation' : 'Unexpected "??"', this.line, this.filename);
+                }
+                this.out.push('_utils.' + match + '(');
+                this.state.push(_t.FUNCTION);
+                this.filterApplyIdx.push(this.out.length - 1);
+                break;
+
+            case _t.TEST:
+            case _t.TESTEMPTY:
+                // `is not name` negates the test
+                temp = match.split(/\s+/);
+                match = temp.pop();
+                if (!this.tests.hasOwnProperty(match) || typeof this.tests[match] !== 'function') {
+                    utils.throwError(`Invalid test "${match}"`, this.line, this.filename);
+                }
+                this.out.splice(this.filterApplyIdx[this.filterApplyIdx.length - 1], 0, (temp.length ? '!' : '') + '_tests["' + match + '"](');
+                this.keepUndefined(this.filterApplyIdx[this.filterApplyIdx.length - 1] + 1);
+                if (token.type === _t.TESTEMPTY) {
+                    this.out.push(')');
+                } else {
+                    // Arguments are parsed in the same way as those of a filter
+                    this.state.push(_t.FILTER);
+                }
+                break;
+
             case _t.FUNCTION:
             case _t.FUNCTIONEMPTY:
+                // `range()` is built in, unless the context has its own, other functions that are not there are undefined
                 this.out.push('((typeof _ctx.' + match + ' !== "undefined") ? _ctx.' + match +
                     ' : ((typeof ' + match + ' !== "undefined") ? ' + match +
-                    ' : _fn))(');
+                    ' : ' + (match === 'range' ? '_utils.range' : '(_undef("' + match + '", ' + this.line + ', _ctx) || _fn)') + '))(');
                 this.escape = false;
                 if (token.type === _t.FUNCTIONEMPTY) {
                     this.out[this.out.length - 1] = this.out[this.out.length - 1] + ')';
@@ -222,11 +467,12 @@ export class TokenParser {
 
             case _t.PARENOPEN:
                 this.state.push(token.type);
-                if (this.filterApplyIdx.length) {
+                // A paren after a value calls it, otherwise it groups, as after `in` or `=` in a tag
+                if (this.filterApplyIdx.length && _valueEnds.indexOf(prevTokenType) !== -1) {
                     this.out.splice(this.filterApplyIdx[this.filterApplyIdx.length - 1], 0, '(');
                     if (prevToken && prevTokenType === _t.VAR) {
-                        temp = prevToken.match.split('.').slice(0, -1);
-                        this.out.push(' || _fn).call(' + this.checkMatch(temp));
+                        // The method itself is reported when it is undefined, not the object it is called on
+                        this.out.push(' || _fn).call(' + this.checkMatch(splitPath(prevToken.match).names.slice(0, -1), [], 'empty'));
                         this.state.push(_t.METHODOPEN);
                         this.escape = false;
                     } else {
@@ -254,17 +500,28 @@ export class TokenParser {
                 break;
 
             case _t.COMMA:
-                if (lastState !== _t.FUNCTION &&
+                if ((lastState !== _t.FUNCTION &&
                     lastState !== _t.FILTER &&
                     lastState !== _t.ARRAYOPEN &&
                     lastState !== _t.CURLYOPEN &&
                     lastState !== _t.PARENOPEN &&
-                    lastState !== _t.COLON) {
+                    lastState !== _t.COLON) ||
+                    this.isSlice() ||
+                    !prevToken ||
+                    prevTokenType === _t.COMMA ||
+                    prevTokenType === _t.COLON ||
+                    prevTokenType === _t.BRACKETOPEN ||
+                    prevTokenType === _t.CURLYOPEN) {
                     utils.throwError('Unexpected comma', this.line, this.filename);
                 }
                 if (lastState === _t.COLON) {
                     this.state.pop();
                 }
+                // The left side of `??` is undefined or null when it is missing, instead of ""
+                temp = this.filterApplyIdx[this.filterApplyIdx.length - 2];
+                if (lastState === _t.FUNCTION && this.out[temp] === '_utils.coalesce(' && temp === this.out.length - 2) {
+                    this.keepUndefined(temp + 1);
+                }
                 this.out.push(', ');
                 this.filterApplyIdx.pop();
                 break;
@@ -294,23 +551,42 @@ export class TokenParser {
             case _t.BRACKETOPEN:
                 if (!prevToken ||
                     (prevTokenType !== _t.VAR &&
+                        prevTokenType !== _t.STRING &&
                         prevTokenType !== _t.BRACKETCLOSE &&
                         prevTokenType !== _t.PARENCLOSE)) {
                     this.state.push(_t.ARRAYOPEN);
                     this.filterApplyIdx.push(this.out.length);
                 } else {
                     this.state.push(token.type);
+                    // Start of the operand and position of the bracket, in case this turns out to be a slice
+                    this.brackets.push([this.filterApplyIdx[this.filterApplyIdx.length - 1], this.out.length]);
                 }
                 this.out.push('[');
                 break;
 
             case _t.BRACKETCLOSE:
+                if (this.isSlice()) {
+                    this.closeSlicePart(prevTokenType);
+                    while (this.state[this.state.length - 1] === _t.COLON) {
+                        this.state.pop();
+                    }
+                    this.state.pop();
+                    this.brackets.pop();
+                    this.out.push(')');
+                    break;
+                }
                 temp = this.state.pop();
                 if (temp !== _t.BRACKETOPEN && temp !== _t.ARRAYOPEN) {
                     utils.throwError('Unexpected closing square bracket', this.line, this.filename);
                 }
+                if (temp === _t.BRACKETOPEN) {
+                    this.brackets.pop();
+                }
                 this.out.push(']');
-                this.filterApplyIdx.pop();
+                // An empty literal or a trailing comma leaves the literal itself as the operand
+                if (prevTokenType !== _t.COMMA && prevTokenType !== _t.BRACKETOPEN) {
+                    this.filterApplyIdx.pop();
+                }
                 break;
 
             case _t.CURLYOPEN:
@@ -319,8 +595,48 @@ export class TokenParser {
                 this.filterApplyIdx.push(this.out.length - 1);
                 break;
 
+            case _t.CONDITIONAL:
+                if (match !== '?') {
+                    utils.throwError('Unexpected "if" without "else"', this.line, this.filename);
+                }
+                if (!prevToken ||
+                    prevTokenType === _t.COMMA ||
+                    prevTokenType === _t.COLON ||
+                    prevTokenType === _t.CONDITIONAL ||
+                    prevTokenType === _t.CONDITIONALELSE ||
+                    prevTokenType === _t.BRACKETOPEN ||
+                    prevTokenType === _t.CURLYOPEN ||
+                    prevTokenType === _t.PARENOPEN ||
+                    prevTokenType === _t.FUNCTION ||
+                    prevTokenType === _t.OPERATOR ||
+                    prevTokenType === _t.LOGIC ||
+                    prevTokenType === _t.COMPARATOR ||
+                    prevTokenType === _t.NOT) {
+                    utils.throwError('Unexpected inline condition', this.line, this.filename);
+                }
+                this.out.push(' ? ');
+                this.filterApplyIdx.pop();
+                this.state.push(token.type);
+                break;
+
+            case _t.CONDITIONALELSE:
             case _t.COLON:
-                if (lastState !== _t.CURLYOPEN) {
+                // Filters after the colon only apply to the alternative
+                if (lastState === _t.CONDITIONAL) {
+                    this.state.pop();
+                    this.out.push(' : ');
+                    this.filterApplyIdx.pop();
+                    break;
+                }
+                if (token.type === _t.CONDITIONALELSE) {
+                    utils.throwError('Unexpected "else"', this.line, this.filename);
+                }
+                // `[start:stop:step]` is a slice, each part may be left out
+                if (lastState === _t.BRACKETOPEN || (lastState === _t.COLON && this.state[this.state.length - 2] === _t.BRACKETOPEN)) {
+                    this.openSlicePart(lastState, prevTokenType);
+                    break;
+                }
+                if (lastState !== _t.CURLYOPEN || !prevToken || prevTokenType === _t.COMMA || prevTokenType === _t.CURLYOPEN) {
                     utils.throwError('Unexpected colon', this.line, this.filename);
                 }
                 this.state.push(token.type);
@@ -330,6 +646,9 @@ export class TokenParser {
 
             case _t.CURLYCLOSE:
                 if (lastState === _t.COLON) {
+                    if (prevTokenType === _t.COLON) {
+                        utils.throwError('Unexpected closing curly brace', this.line, this.filename);
+                    }
                     this.state.pop();
                 }
                 if (this.state.pop() !== _t.CURLYOPEN) {
@@ -337,7 +656,10 @@ export class TokenParser {
                 }
                 this.out.push('}');
 
-                this.filterApplyIdx.pop();
+                // An empty literal or a trailing comma leaves the literal itself as the operand
+                if (prevTokenType !== _t.COMMA && prevTokenType !== _t.CURLYOPEN) {
+                    this.filterApplyIdx.pop();
+                }
                 break;
 
             case _t.DOTKEY:
@@ -359,7 +681,98 @@ export class TokenParser {
                 this.out.push(' ' + match + ' ');
                 this.filterApplyIdx.pop();
                 break;
+
+            case _t.UNKNOWN:
+                utils.throwError(`Unexpected token "${match}"`, this.line, this.filename, 'lex');
+                break;
+        }
+    }
+
+    /**
+     * Whether the innermost square brackets hold a slice, as in `items[1:3]`.
+     * 
+     * @return {boolean}
+     */
+    private isSlice(): boolean {
+        let i = this.state.length - 1;
+
+        while (this.state[i] === _t.COLON) {
+            i -= 1;
+        }
+        return i < this.state.length - 1 && this.state[i] === _t.BRACKETOPEN;
+    }
+
+    /**
+     * Start the next part of a slice. The first colon rewrites `operand[start` to `_utils.slice(operand, start`.
+     * 
+     * @param lastState       Current nesting state.
+     * @param prevTokenType   Type of the token before the colon.
+     */
+    private openSlicePart(lastState: number, prevTokenType: number) {
+        let [start, bracket] = this.brackets[this.brackets.length - 1];
+
+        if (lastState === _t.BRACKETOPEN) {
+            this.out[bracket] = ', ';
+            if (prevTokenType === _t.BRACKETOPEN) {
+                this.out.push('undefined');
+            } else {
+                this.filterApplyIdx.pop();
+            }
+            this.out.splice(start, 0, '_utils.slice(');
+        } else {
+            this.closeSlicePart(prevTokenType);
         }
+        this.out.push(', ');
+        this.state.push(_t.COLON);
+    }
+
+    /**
+     * End a part of a slice, a part that is left out is undefined.
+     * 
+     * @param prevTokenType   Type of the token before the end of the part.
+     */
+    private closeSlicePart(prevTokenType: number) {
+        if (prevTokenType === _t.COLON) {
+            this.out.push('undefined');
+        } else {
+            this.filterApplyIdx.pop();
+        }
+    }
+
+    /**
+     * Compile a string literal. Double quoted strings may interpolate expressions, as in `"Hello #{name}"`.
+     * The expression may have braces and strings of its own, as in `"#{ {a: "}"}.a }"`.
+     * 
+     * @param match   String literal, with its quotes.
+     * @param token   Lexer token of the literal, to locate the interpolated tokens in the source.
+     * @return {string}   JavaScript expression for the string.
+     */
+    parseString(match: string, token?: LexerToken): string {
+        const body = match.slice(1, -1),
+            at: Position = (token && token.line) ? { offset: token.start, line: token.line, column: token.column } : null,
+            parts = [];
+        let last = 0,
+            found;
+
+        if (match.charAt(0) !== '"' || body.indexOf('#{') === -1) {
+            return match.replace(/\\/g, '\\\\');
+        }
+
+        while ((found = findInterpolation(body, last)) !== null) {
+            const inner = found.expression.trim(),
+                offset = 1 + found.index + 2 + found.expression.indexOf(inner),
+                parser = new TokenParser(lexer.read(inner, at ? advance(at, match.slice(0, offset)) : undefined), this.filters, false, this.line, this.filename, this.tests),
+                out = parser.parse().join('');
+
+            if (!out || parser.state.length) {
+                utils.throwError(`Unable to parse "${body.slice(found.index, found.end)}"`, this.line, this.filename);
+            }
+            parts.push('"' + body.slice(last, found.index).replace(/\\/g, '\\\\') + '"', out);
+            last = found.end;
+        }
+        parts.push('"' + body.slice(last).replace(/\\/g, '\\\\') + '"');
+
+        return '_utils.concat(' + parts.join(', ') + ')';
     }
 
     /**
@@ -369,7 +782,7 @@ export class TokenParser {
      * @param lastState   Lexer token type state.
      */
     parseVar(token: LexerToken, match: string, lastState: number) {
-        const matchArr = match.split('.');
+        const { names: matchArr, optional } = splitPath(match);
 
         if (_reserved.indexOf(matchArr[0]) !== -1) {
             utils.throwError(`Reserved keyword "${matchArr[0]}" attempted to be used as a variable`, this.line, this.filename);
@@ -385,48 +798,275 @@ export class TokenParser {
             return;
         }
 
-        this.out.push(this.checkMatch(matchArr));
+        const line = this.line,
+            code = this.checkMatch(matchArr, optional);
+
+        // Filters and tests that come after the variable may change how it reads when it is missing
+        this.variables[code] = (missing: Missing) => this.checkMatch(matchArr, optional, missing, line);
+        this.out.push(code);
     }
 
     /**
-     * Return contextual dot-check string for match.
+     * The `default` filter handles undefined input itself, so its input must not be reported as undefined.
      * 
+     * @param filter  Name of the filter being applied.
+     * @param idx     Index of the filter input in the output.
+     */
+    private allowUndefined(filter: string, idx: number) {
+        if (filter === 'default' && this.variables.hasOwnProperty(this.out[idx])) {
+            this.out[idx] = this.variables[this.out[idx]]('empty');
+        }
+    }
+
+    /**
+     * Tests see undefined and null values as they are, instead of the empty string that is output for them.
+     * 
+     * @param idx     Index of the test input in the output.
+     */
+    private keepUndefined(idx: number) {
+        if (this.variables.hasOwnProperty(this.out[idx])) {
+            this.out[idx] = this.variables[this.out[idx]]('keep');
+        }
+    }
+
+    /**
+     * Return contextual dot-check string for match.
+     * A null value reads as "", a path that can not be read is handed to the template's undefined handler, `_undef`.
+     * An optional chain, as `a.b?.c`, reads as "" without calling `_undef` when the name before `?.` is undefined or null.
+     * The names before it must still be defined, so `a` is an error in strict mode when it is undefined.
      * 
      * @param match 
+     * @param [optional]  Index of each name that is followed by `?.`.
+     * @param [missing]   How the variable reads when it is null or can not be read.
+     * @param [line]      Line of the variable, for `_undef`.
      */
-    checkMatch(match: string[]): string {
-        let temp = match[0], result;
+    checkMatch(match: string[], optional: number[] = [], missing: Missing = 'undef', line: number = this.line): string {
+        let temp = match[0],
+            path = match.join('.'),
+            skip;
 
-        // Verify that the variable is present
-        function checkDot(ctx: string) {
+        // Verify that the variable is present, `leaf` is the check for its value
+        function checkDot(ctx: string, leaf: string, m: string[] = match) {
             let c = ctx + temp,
-                m = match,
                 build = '';
 
-            build = `(typeof ${c} !== "undefined" && ${c} !== null`;
+            build = `(typeof ${c} !== "undefined"`;
             utils.each(m, (v, i) => {
                 if (i === 0) {
                     return;
                 }
-                build += ` && ${c}.${v} !== undefined && ${c}.${v} !== null`;
+                build += ` && ${c} !== null && ${c}.${v} !== undefined`;
                 c += '.' + v;
             });
-            build += ')';
+            build += ` && ${c} ${leaf})`;
             return build;
         }
 
-        // Read the variable
-        function buildDot(ctx: string) {
-            return '(' + checkDot(ctx) + '?' + ctx + match.join('.') + ' : "")';
+        // Whether the first n names can be read and are not null
+        function present(n: number) {
+            return '(' + checkDot('_ctx.', '!== null', match.slice(0, n)) + ' || ' + checkDot('', '!== null', match.slice(0, n)) + ')';
+        }
+
+        // The chain stops at the first name that is undefined or null, it is only optional when that name is followed by `?.`
+        skip = utils.map(optional, (i: number) => (i ? present(i) + ' && ' : '') + '!' + present(i + 1)).join(' || ');
+
+        return '(' + checkDot('_ctx.', '!== null') + ' ? _ctx.' + path +
+            ' : ' + checkDot('', '!== null') + ' ? ' + path +
+            ' : (' + checkDot('_ctx.', '=== null') + ' || ' + checkDot('', '=== null') + ') ? ' + (missing === 'keep' ? 'null' : '""') +
+            ' : ' + (missing === 'keep' ? 'undefined' : missing === 'empty' ? '""' :
+                (skip ? '(' + skip + ') ? "" : ' : '') + '_undef("' + path + '", ' + line + ', _ctx)') + ')';
+    }
+}
+
+/**
+ * Split a variable path into its names, with the index of each name that is followed by `?.`.
+ *
+ * @example
+ * splitPath('a.b?.c');
+ * // => { names: ['a', 'b', 'c'], optional: [1] }
+ *
+ * @param  match   Variable path.
+ * @return {object}
+ * @private
+ */
+function splitPath(match: string): { names: string[], optional: number[] } {
+    const names = match.split('.'),
+        optional = [];
+
+    utils.each(names, (name: string, i: number) => {
+        if (name.charAt(name.length - 1) === '?') {
+            names[i] = name.slice(0, -1);
+            optional.push(i);
+        }
+    });
+
+    return { names: names, optional: optional };
+}
+
+/**
+ * Read a line statement chunk from `split`, when the options have a line statement prefix.
+ * The chunk must start a line. A line comment at the end of the statement is not part of it.
+ *
+ * @example
+ * lineStatement('  % for x in y ## items\n', { lineStatementPrefix: '%', lineCommentPrefix: '##' });
+ * // => { str: 'for x in y', offset: 4 }
+ *
+ * @param  chunk   Chunk of the source.
+ * @param  opts    Swig options object.
+ * @return {object}   The statement as `str` and its offset in the chunk as `offset`, or null if the chunk is not a line statement.
+ */
+const lineStatement = function (chunk: string, opts: SwigOptions): { str: string, offset: number } {
+    const prefix = opts.lineStatementPrefix,
+        comment = opts.lineCommentPrefix,
+        head = prefix ? chunk.match(new RegExp('^[ \\t]*' + escapeRegExp(prefix) + '[ \\t]*')) : null;
+    let str;
+
+    // The longer prefix wins, when one starts with the other
+    if (!head || (comment && comment.length > prefix.length && isLineComment(chunk, opts))) {
+        return null;
+    }
+
+    str = chunk.slice(head[0].length).split('\n')[0];
+    if (comment && str.indexOf(comment) !== -1) {
+        str = str.slice(0, str.indexOf(comment));
+    }
+
+    return { str: str.replace(/\s+$/, ''), offset: head[0].length };
+}
+
+/**
+ * Check that a chunk from `split` is a line comment, when the options have a line comment prefix.
+ *
+ * @param  chunk   Chunk of the source.
+ * @param  opts    Swig options object.
+ * @return {boolean}
+ */
+const isLineComment = function (chunk: string, opts: SwigOptions): boolean {
+    const prefix = opts.lineCommentPrefix;
+
+    return !!prefix && new RegExp('^[ \\t]*' + escapeRegExp(prefix)).test(chunk);
+}
+
+/**
+ * Split content into text, line statement and line comment chunks.
+ * A line statement takes its whole line, with the line break. A line comment takes the rest of its line, with the whitespace before it.
+ *
+ * @param  content     Content between tags, variables and comments.
+ * @param  lineStart   Whether the content starts a line.
+ * @param  opts        Swig options object.
+ * @return {string[]}  Chunks of the content, in order.
+ * @private
+ */
+function splitLines(content: string, lineStart: boolean, opts: SwigOptions): string[] {
+    const comment = opts.lineCommentPrefix,
+        out: string[] = [];
+    let text = '';
+
+    utils.each(content.match(/[^\n]*\n?/g), (line: string, i: number) => {
+        const found = comment ? line.indexOf(comment) : -1;
+        let start, end;
+
+        if ((lineStart || i > 0) && lineStatement(line, opts)) {
+            out.push(text, line);
+            text = '';
+        } else if (found !== -1) {
+            start = line.slice(0, found).replace(/[ \t]*$/, '').length;
+            end = line.endsWith('\n') ? line.length - 1 : line.length;
+            out.push(text + line.slice(0, start), line.slice(start, end));
+            text = line.slice(end);
+        } else {
+            text += line;
+        }
+    });
+    out.push(text);
+
+    return out.filter((chunk) => chunk !== '');
+}
+
+/**
+ * Split a template source into content, tag, variable and comment chunks.
+ * Object literals may end in the variable close control, as in `{{ {a: {b: 1}} }}`,
+ * so a variable takes the source up to the next close control until its curly braces are balanced.
+ * With line statement or line comment prefixes in the options, the content is split into their chunks too.
+ * 
+ * @param  source   Swig template source, with `\n` line endings.
+ * @param  opts     Swig options object.
+ * @return {string[]}   Chunks of the source, in order. Joined, they are the source.
+ */
+const split = function (source: string, opts: SwigOptions): string[] {
+    const [tagOpen, tagClose] = opts.tagControls,
+        [varOpen, varClose] = opts.varControls,
+        [cmtOpen, cmtClose] = opts.cmtControls,
+        anyChar = '[\\s\\S]*?',
+        splitter = new RegExp(
+            '(' +
+            escapeRegExp(tagOpen) + anyChar + escapeRegExp(tagClose) + '|' +
+            escapeRegExp(varOpen) + anyChar + escapeRegExp(varClose) + '|' +
+            escapeRegExp(cmtOpen) + anyChar + escapeRegExp(cmtClose) +
+            ')'
+        ),
+        chunks = source.split(splitter),
+        lines = !!(opts.lineStatementPrefix || opts.lineCommentPrefix),
+        out = [];
+    let i, chunk, end,
+        lineStart = true;
+
+    for (i = 0; i < chunks.length; i += 1) {
+        chunk = chunks[i];
+        if (chunk.indexOf(varOpen) === 0) {
+            while (openCurlies(chunk.slice(varOpen.length, -varClose.length)) > 0 &&
+                i + 1 < chunks.length &&
+                (end = chunks[i + 1].indexOf(varClose)) !== -1) {
+                chunk += chunks[i + 1].slice(0, end + varClose.length);
+                chunks[i + 1] = chunks[i + 1].slice(end + varClose.length);
+            }
         }
-        result = '(' + checkDot('_ctx.') + ' ? ' + buildDot('_ctx.') + ' : ' + buildDot('') + ')';
+        if (lines && i % 2 === 0) {
+            out.push(...splitLines(chunk, lineStart, opts));
+        } else {
+            out.push(chunk);
+        }
+        lineStart = chunk ? chunk.endsWith('\n') : lineStart;
+    }
 
-        // If variable = null, will return ''
-        return '(' + result + ' !== null ? ' + result + ' : ' + '"" )';
+    return out;
+}
+
+/**
+ * Compile a variable or tag on its own, to find code that is not valid JavaScript before the whole template is compiled.
+ * Tags are compiled before they have contents. Tags in the middle of another, like `else`, close a block and open the next,
+ * so the code is tried after the start of an `if` block, inside of the label that `break` and `continue` jump to.
+ *
+ * @param token   Parsed variable or tag.
+ * @param opts    Swig options object.
+ * @throws {TemplateError} When the code is not valid JavaScript.
+ * @private
+ */
+function trialCompile(token: Token, opts: SwigOptions) {
+    let code: string;
+
+    try {
+        code = compile({ name: opts.filename, parent: null, tokens: [token], blocks: {} }, [], opts);
+    } catch (err) {
+        // Tags that can not compile on their own fail with the template instead
+        return;
+    }
+
+    try {
+        new Function('__iteration: { if (true) {\n' + code + '\n} }');
+    } catch (err) {
+        utils.throwError(String(err), token.line, opts.filename, 'compile');
     }
 }
 
-const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tags, filters: Filters): ParsedToken {
+/**
+ * Parse a template source into tokens.
+ * With a list of diagnostics, errors are added to the list instead of thrown, and parsing goes on at the next tag or variable.
+ *
+ * @param [diagnostics]   List to collect the problems of the template in.
+ * @return {ParsedToken}
+ */
+const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tags, filters: Filters, tests: Tests, diagnostics?: Diagnostic[]): ParsedToken {
     source = source.replace(/\r\n/g, '\n');
     let escape = opts.autoescape,
         [tagOpen, tagClose] = opts.tagControls,
@@ -436,41 +1076,37 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
         escapedTagClose = escapeRegExp(tagClose),
         escapedVarOpen = escapeRegExp(varOpen),
         escapedVarClose = escapeRegExp(varClose),
-        escapeCmtOpen = escapeRegExp(cmtOpen),
-        escapeCmtClose = escapeRegExp(cmtClose),
-        tagStrip = new RegExp('^' + escapedTagOpen + '-?\\s*|\\s*-?' + escapedTagClose + '$', 'g'),
+        tagStrip = new RegExp('^' + escapedTagOpen + '[-+]?\\s*|\\s*[-+]?' + escapedTagClose + '$', 'g'),
+        tagStripStart = new RegExp('^' + escapedTagOpen + '[-+]?\\s*'),
         tagStripBefore = new RegExp('^' + escapedTagOpen + '-'),
         tagStripAfter = new RegExp('-' + escapedTagClose + '$'),
+        tagKeepBefore = new RegExp('^' + escapedTagOpen + '\\+'),
+        tagKeepAfter = new RegExp('\\+' + escapedTagClose + '$'),
         varStrip = new RegExp('^' + escapedVarOpen + '-?\\s*|\\s*-?' + escapedVarClose + '$', 'g'),
+        varStripStart = new RegExp('^' + escapedVarOpen + '-?\\s*'),
         varStripBefore = new RegExp('^' + escapedVarOpen + '-'),
         varStripAfter = new RegExp('-' + escapedVarClose + '$'),
-
-        anyChar = '[\\s\\S]*?',
-        splitter = new RegExp(
-            '(' +
-            escapedTagOpen + anyChar + escapedTagClose + '|' +
-            escapedVarOpen + anyChar + escapedVarClose + '|' +
-            escapeCmtOpen + anyChar + escapeCmtClose +
-            ')'
-        ),
-        line = 1,
+        at: Position = { offset: 0, line: 1, column: 1 },
         stack: Token[] = [],
         parent: string = null,
         tokens = [],
+        unknownTags: string[] = [],
         blocks = {},
         inRaw = false,
-        stripNext;
+        stripNext,
+        trimNext;
 
     /**
      * Parse a variable.
      * 
      * @param str  String contents of the variable, between <i>{{</i> and <i>}}</i>
      * @param line The line number that this variable starts on.
+     * @param from Position of the contents in the source.
      * @return {VarToken}   Parsed variable token object.
      */
-    function parseVariable(str: string, line: number): { compile: () => string } {
-        const tokens = lexer.read(str);
-        const parser = new TokenParser(tokens, filters, escape, line, opts.filename);
+    function parseVariable(str: string, line: number, from: Position): Token {
+        const tokens = lexer.read(str, from);
+        const parser = new TokenParser(tokens, filters, escape, line, opts.filename, tests);
         const out = parser.parse().join('');
 
         if (parser.state.length) {
@@ -478,6 +1114,8 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
         }
 
         return {
+            line: line,
+            filename: opts.filename,
             compile: function () {
                 return '_output +=' + out + ';\n';
             }
@@ -489,10 +1127,11 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
      * 
      * @param str  String contents of the variable, between <i>{%</i> and <i>%}</i>
      * @param line The line number that this variable starts on.
+     * @param from Position of the contents in the source.
      * @return {TagToken} Parsed token object.
      */
-    function parseTag(str: string, line: number) {
-        let tokens: LexerToken[], parser: TokenParser, chunks: string[], tagName: string, tag, args, last;
+    function parseTag(str: string, line: number, from: Position) {
+        let tokens: LexerToken[], parser: TokenParser, chunks: string[], tagName: string, tag, args, last, head;
 
         if (str.startsWith('end')) {
             last = stack[stack.length - 1];
@@ -525,8 +1164,10 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
             utils.throwError(`Unexpected tag "${str}"`, line, opts.filename);
         }
 
-        tokens = lexer.read(chunks.join(' ').trim());
-        parser = new TokenParser(tokens, filters, false, line, opts.filename);
+        // The arguments are read in place, so their tokens have their position in the source
+        head = str.match(/^\S*\s*/)[0];
+        tokens = lexer.read(str.slice(head.length), advance(from, head));
+        parser = new TokenParser(tokens, filters, false, line, opts.filename, tests);
         tag = tags[tagName];
 
         /**
@@ -556,6 +1197,10 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
 
         args = parser.parse();
 
+        if (parser.state.length) {
+            utils.throwError(`Unable to parse "${str}"`, line, opts.filename);
+        }
+
         switch (tagName) {
             case 'autoescape':
                 escape = (args[0] !== 'false') ? args[0] : false;
@@ -571,7 +1216,9 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
             args: args,
             content: [],
             ends: tag.ends,
-            name: tagName
+            name: tagName,
+            line: line,
+            filename: opts.filename
         }
     }
 
@@ -589,27 +1236,63 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
         return token;
     }
 
-    /*!
-     * Loop over the source, split via the tag/var/comment regular expression splitter.
-     * Send each chunl to the appropriate parser.
+    /**
+     * Strip the spaces and tabs before the current tag, when nothing else is before it on its line.
      */
-    utils.each(source.split(splitter), (chunk) => {
-        let token: Token, lines, stripPrev, prevToken, prevChildToken;
+    function lstripLine() {
+        const container = stack.length ? stack[stack.length - 1].content : tokens,
+            last = container.length - 1;
 
-        if (!chunk) {
-            return;
+        if (/^[ \t]+$/.test(source.slice(source.lastIndexOf('\n', at.offset - 1) + 1, at.offset)) && typeof container[last] === 'string') {
+            container[last] = container[last].replace(/[ \t]+$/, '');
         }
+    }
+
+    /**
+     * Parse a single chunk of the source and add it to the tokens.
+     * 
+     * @param chunk   Tag, variable, comment or content string.
+     */
+    function parseChunk(chunk) {
+        let token: Token, stripPrev, prevToken, prevChildToken, statement,
+            isTag = false;
 
         if (!inRaw && chunk.startsWith(varOpen) && chunk.endsWith(varClose)) {
             // Is a variable.
             stripPrev = varStripBefore.test(chunk);
             stripNext = varStripAfter.test(chunk);
-            token = parseVariable(chunk.replace(varStrip, ''), line);
+            trimNext = false;
+            token = parseVariable(chunk.replace(varStrip, ''), at.line, advance(at, chunk.match(varStripStart)[0]));
         } else if (chunk.startsWith(tagOpen) && chunk.endsWith(tagClose)) {
             // Is a tag
+            isTag = true;
             stripPrev = tagStripBefore.test(chunk);
             stripNext = tagStripAfter.test(chunk);
-            token = parseTag(chunk.replace(tagStrip, ''), line);
+            trimNext = opts.trimBlocks && !tagKeepAfter.test(chunk);
+            if (opts.lstripBlocks && !stripPrev && !tagKeepBefore.test(chunk) && (!inRaw || /^endraw\b/.test(chunk.replace(tagStrip, '')))) {
+                lstripLine();
+            }
+            token = parseTag(chunk.replace(tagStrip, ''), at.line, advance(at, chunk.match(tagStripStart)[0]));
+        } else if (at.column === 1 && (statement = lineStatement(chunk, opts))) {
+            // Is a line statement, a tag without controls on a line of its own
+            isTag = true;
+            trimNext = false;
+            token = parseTag(statement.str, at.line, advance(at, chunk.slice(0, statement.offset)));
+        } else if (!inRaw && isLineComment(chunk, opts)) {
+            return;
+        } else if (inRaw || (!chunk.startsWith(cmtOpen) && !chunk.endsWith(cmtClose))) {
+            // Is content string
+            token = (stripNext) ? chunk.replace(/^\s*/, '') : (trimNext) ? chunk.replace(/^\n/, '') : chunk;
+            stripNext = trimNext = false;
+        } else if (chunk.startsWith(cmtOpen) && chunk.endsWith(cmtClose)) {
+            return;
+        }
+
+        if (diagnostics && token && typeof token === 'object') {
+            trialCompile(token, opts);
+        }
+
+        if (isTag) {
             if (token) {
                 if (token.name === 'extends') {
                     parent = token.args.join('').replace(/^\'|\'$/g, '').replace(/^\"|\"$/g, '');
@@ -619,13 +1302,15 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
             }
             if (inRaw && !token) {
                 token = chunk;
+                trimNext = false;
             }
-        } else if (inRaw || (!chunk.startsWith(cmtOpen) && !chunk.endsWith(cmtClose))) {
-            // Is content string
-            token = (stripNext) ? chunk.replace(/^\s*/, '') : chunk;
-            stripNext = false;
-        } else if (chunk.startsWith(cmtOpen) && chunk.endsWith(cmtClose)) {
-            return;
+        }
+
+        // Tags and variables know their place in the source, with their controls
+        if (token && typeof token === 'object') {
+            token.start = at.offset;
+            token.end = at.offset + chunk.length;
+            token.column = at.column;
         }
 
         // Did this tag ask to strip previous whitespace? {%- ... %} or {{- ... }}
@@ -655,9 +1340,71 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
         if (token.name && token.ends) {
             stack.push(token);
         }
+    }
 
-        lines = chunk.match(/\n/g);
-        line += (lines) ? lines.length : 0;
+    /**
+     * Record the error of a chunk as a diagnostic, and keep the stack of open tags as the template meant it.
+     * A tag that failed still opens its body, so its end tag is not unexpected. End tags of unknown tags are skipped.
+     *
+     * @param err     Error of the chunk, with its location.
+     * @param chunk   Tag, variable, comment or content string.
+     */
+    function recover(err: TemplateError, chunk: string) {
+        const statement = (at.column === 1) ? lineStatement(chunk, opts) : null,
+            str = statement ? statement.str : (chunk.startsWith(tagOpen) && chunk.endsWith(tagClose)) ? chunk.replace(tagStrip, '') : null,
+            name = (str !== null) ? str.split(/\s+/)[0] : null;
+
+        if (name && name.startsWith('end') && unknownTags.indexOf(name.replace(/^end/, '')) !== -1) {
+            return;
+        }
+        diagnostics.push(err.toDiagnostic());
+
+        if (name && tags.hasOwnProperty(name)) {
+            if (tags[name].ends) {
+                stack.push({ name: name, ends: true, args: [], content: [], line: at.line, column: at.column, filename: opts.filename } as Token);
+            }
+        } else if (name && !name.startsWith('end')) {
+            unknownTags.push(name);
+        }
+    }
+
+    /*!
+     * Loop over the source, split via the tag/var/comment regular expression splitter.
+     * Send each chunl to the appropriate parser.
+     */
+    utils.each(split(source, opts), (chunk) => {
+        if (!chunk) {
+            return;
+        }
+
+        try {
+            parseChunk(chunk);
+        } catch (err) {
+            // Tags can fail on their own, as when they load a file that is not there
+            if (!(err instanceof TemplateError)) {
+                if (!diagnostics) {
+                    throw err;
+                }
+                err = new TemplateError(String(err && err.message || err), { phase: 'parse', cause: err });
+            }
+            err.locate({ filename: opts.filename, line: at.line, column: at.column, source: source }).within(opts.filename);
+            if (!diagnostics) {
+                throw err;
+            }
+            recover(err, chunk);
+        }
+
+        at = advance(at, chunk);
+    });
+
+    // Tags that are never closed can not be compiled
+    utils.each(stack, (token: Token) => {
+        const err = new TemplateError(`Missing end tag for "${token.name}"`, { filename: opts.filename, line: token.line, column: token.column, phase: 'parse', source: source });
+
+        if (!diagnostics) {
+            throw err.within(opts.filename);
+        }
+        diagnostics.push(err.toDiagnostic());
     });
 
     return {
@@ -678,6 +1425,7 @@ const parse = function (swig: Swig, source: string, opts: SwigOptions, tags: Tag
  */
 const compile = function (template: ParsedToken, parents: ParsedToken[], options: SwigOptions, blockName?: string) {
     let out = '',
+        file,
         tokens = utils.isArray(template) ? template : template.tokens;
 
     utils.each(tokens, function (token) {
@@ -687,6 +1435,15 @@ const compile = function (template: ParsedToken, parents: ParsedToken[], options
             return;
         }
 
+        // Keep track of the template location, for errors thrown while rendering
+        if (token.line) {
+            out += '_line = ' + token.line + '; _column = ' + (token.column || 0) + ';\n';
+        }
+        if (token.filename && token.filename !== file) {
+            file = token.filename;
+            out += '_file = ' + JSON.stringify(file) + ';\n';
+        }
+
         /**
          * Compile callback for VarToken and TagToken objects.
          * @callback compile
@@ -706,14 +1463,63 @@ const compile = function (template: ParsedToken, parents: ParsedToken[], options
          * @param [options] Swig Options Object
          * @param [blockName] Name of the direct block parent, if any.
          */
+        if (token.name) {
+            // Hand the output rendered so far to the stream, if there is one
+            out += 'if (_flush) { _flush(_output); _output = ""; }\n';
+        }
         o = token.compile(compile, token.args ? token.args.slice(0) : [], token.content ? token.content.slice(0) : [], parents, options, blockName);
         out += o || '';
+
+        // Content may come from another template, like blocks in a parent
+        if (token.content && token.content.length) {
+            file = undefined;
+        }
     });
 
     return out;
 }
 
+/**
+ * Find the templates that a source string extends, includes or imports.
+ * Only string literal paths can be found, variable paths are resolved at render time.
+ *
+ * @param  source   Swig template source.
+ * @param  opts     Swig options object.
+ * @return {string[]}   Unresolved paths of the templates referenced by the source.
+ */
+const dependencies = function (source: string, opts: SwigOptions): string[] {
+    let [tagOpen, tagClose] = opts.tagControls,
+        [cmtOpen, cmtClose] = opts.cmtControls,
+        comments = new RegExp(escapeRegExp(cmtOpen) + '[\\s\\S]*?' + escapeRegExp(cmtClose), 'g'),
+        tagMatch = new RegExp(escapeRegExp(tagOpen) + '[-+]?\\s*(extends|include|import)\\s+([\\s\\S]*?)\\s*[-+]?' + escapeRegExp(tagClose), 'g'),
+        lineMatch = opts.lineStatementPrefix ? new RegExp('^[ \\t]*' + escapeRegExp(opts.lineStatementPrefix) + '[ \\t]*(extends|include|import)[ \\t]+(.*)$', 'gm') : null,
+        found: string[] = [],
+        match;
+
+    function add(args: string) {
+        let token = lexer.read(args)[0];
+        // Interpolated paths are only known at render time
+        if (token && token.type === _t.STRING && token.match.indexOf('#{') === -1) {
+            found.push(token.match.replace(/^("|')|("|')$/g, ''));
+        }
+    }
+
+    source = source.replace(comments, '');
+    while ((match = tagMatch.exec(source)) !== null) {
+        add(match[2]);
+    }
+    while (lineMatch && (match = lineMatch.exec(source)) !== null) {
+        add(match[2]);
+    }
+
+    return found;
+}
+
 export default {
+    split: split,
+    lineStatement: lineStatement,
+    isLineComment: isLineComment,
     parse: parse,
-    compile: compile
+    compile: compile,
+    dependencies: dependencies
 }
@@ -1,12 +1,20 @@
 import utils from './utils';
 import filters, { Filters } from './filters';
+import tests, { Tests } from './tests';
 import tags, { Tags, CompileFunction, ParseFunction } from './tags';
 import { fs, memory, TemplateLoader, MemoryInterface } from './loaders';
 import dateformatter from './dateformat';
 import parser, { ParsedToken, Token } from './parser';
+import ast, * as nodes from './ast';
 import { LexerToken } from './lexer';
-
-export type TemplateCompiled = (locals?: {}) => string;
+import { Readable } from 'stream';
+import { TemplateError, Diagnostic } from './error';
+
+export { TemplateError, TemplateErrorDetails, TemplatePhase, Diagnostic, DiagnosticSeverity } from './error';
+export { Token, ParsedToken } from './parser';
+export * from './ast';
+export type TemplateCompiled = (locals?: {}, flush?: (chunk: string) => void, options?: SwigOptions) => string;
+type TemplateSources = { [key: string]: string | Error };
 export interface CacheOptions {
     get: (key: string) => TemplateCompiled;
     set: (key: string, val: TemplateCompiled) => boolean;
@@ -47,6 +55,42 @@ export interface SwigOptions extends Object {
      * @default ['{#', '#}']
      */
     cmtControls?: [string, string];
+    /**
+     * Prefix of line statements, lines that are a tag without the tag controls. A line statement takes its whole line, with the line break.
+     * Off by default.
+     *
+     * @example
+     * swig.render('% for x in 1..3\n{{ x }}\n% endfor\n', { lineStatementPrefix: '%' });
+     * // => '1\n2\n3\n'
+     */
+    lineStatementPrefix?: string;
+    /**
+     * Prefix of line comments, that run to the end of the line. The whitespace before a line comment is removed, the line break is kept.
+     * Off by default.
+     *
+     * @example
+     * swig.render('port = 80 ## default\n', { lineCommentPrefix: '##' });
+     * // => 'port = 80\n'
+     */
+    lineCommentPrefix?: string;
+    /**
+     * Remove the first line break after a tag. A tag that ends with <i>+%}</i> keeps its line break.
+     *
+     * @default false
+     * @example
+     * swig.render('{% if a %}\nyes\n{% endif %}\n', { trimBlocks: true, locals: { a: true } });
+     * // => 'yes\n'
+     */
+    trimBlocks?: boolean;
+    /**
+     * Remove the spaces and tabs before a tag, when the tag starts its line. A tag that starts with <i>{%+</i> keeps them.
+     *
+     * @default false
+     * @example
+     * swig.render('  {% if a %}yes{% endif %}', { lstripBlocks: true, locals: { a: true } });
+     * // => 'yes'
+     */
+    lstripBlocks?: boolean;
     /**
      * Default variable context to be passed to <strong>all</strong> templates.
      * 
@@ -73,6 +117,21 @@ export interface SwigOptions extends Object {
      * 
      */
     filename?: string;
+    /**
+     * Throw an error when a template reads a variable that is not defined, instead of outputting an empty string.
+     * Can also be passed to `render`, `renderFile`, `compile` or to a compiled template to override the default for a single render.
+     * 
+     * @default false
+     */
+    strictVariables?: boolean;
+    /**
+     * Called when a template reads a variable that is not defined, instead of throwing in strict mode.
+     * The return value is used in place of the variable.
+     * 
+     * @example
+     * swig.setDefaults({ onUndefined: function (path, ctx) { log.warn('Missing ' + path); return '[' + path + ']'; } });
+     */
+    onUndefined?: (path: string, ctx: {}) => any;
     /**
      * Template file root path.
      * 
@@ -87,6 +146,9 @@ const defaultOptions: SwigOptions = {
     tagControls: ['{%', '%}'],
     cmtControls: ['{#', '#}'],
     locals: {},
+    strictVariables: false,
+    trimBlocks: false,
+    lstripBlocks: false,
     /**
      * Cache control for templates. Defaults to saving all templates into memory.
      * 
@@ -131,6 +193,76 @@ const defaultOptions: SwigOptions = {
  */
 function efn() { return '' }
 
+/**
+ * Call a node style callback with the outcome of a promise, on the next tick.
+ * The callback runs outside of the promise, so that what it throws is not swallowed as a rejection.
+ *
+ * @param promise   Promise to settle the callback with.
+ * @param cb        Callback for the error or the value.
+ * @private
+ */
+function settle<T>(promise: Promise<T>, cb: (err: Error, value?: T) => void) {
+    promise.then((value) => {
+        process.nextTick(() => cb(null, value));
+    }, (err) => {
+        process.nextTick(() => cb(err));
+    });
+}
+
+/**
+ * Create the method that templates call when they read a variable that is not defined.
+ * It is created for each render, its `options` are handed on to the templates that are included.
+ * 
+ * @param options   Swig options object.
+ * @return {Function}
+ * @private
+ */
+function undefinedHandler(options: SwigOptions) {
+    const handler = function (path: string, line: number, ctx: {}) {
+        let value;
+
+        if (options.onUndefined) {
+            value = options.onUndefined(path, ctx);
+            return (value === undefined || value === null) ? '' : value;
+        }
+
+        if (options.strictVariables) {
+            utils.throwError(`Undefined variable "${path}"`, line, options.filename, 'render');
+        }
+
+        return '';
+    };
+
+    return utils.extend(handler, { options: { strictVariables: options.strictVariables, onUndefined: options.onUndefined } });
+}
+
+/**
+ * Render a compiled template with the `strictVariables` and `onUndefined` options it was compiled with.
+ * The cached template does not depend on them, so the same template may be compiled with different ones.
+ * 
+ * @param compiled  Compiled template.
+ * @param options   Swig options object.
+ * @return {TemplateCompiled}
+ * @private
+ */
+function bindUndefined(compiled: TemplateCompiled, options: SwigOptions = {}): TemplateCompiled {
+    const bound: SwigOptions = {};
+
+    utils.each(['strictVariables', 'onUndefined'], (key) => {
+        if (options.hasOwnProperty(key)) {
+            bound[key] = options[key];
+        }
+    });
+
+    if (!utils.keys(bound).length) {
+        return compiled;
+    }
+
+    return utils.extend((locals?: {}, flush?: (chunk: string) => void, opts?: SwigOptions) => {
+        return compiled(locals, flush, utils.extend({}, bound, opts));
+    }, compiled);
+}
+
 /**
  * Valiadte options.
  * 
@@ -153,6 +285,16 @@ function validateOptions(options: SwigOptions) {
             }
         })
     });
+
+    utils.each(['lineStatementPrefix', 'lineCommentPrefix'], (key) => {
+        if (options.hasOwnProperty(key) && options[key] !== undefined && options[key] !== null && (typeof options[key] !== 'string' || !options[key] || /\s/.test(options[key]))) {
+            throw new Error(`Option "${key}" must be a string without whitespace. Saw "${options[key]}" instead.`);
+        }
+    });
+
+    if (options.lineStatementPrefix && options.lineStatementPrefix === options.lineCommentPrefix) {
+        throw new Error('Options "lineStatementPrefix" and "lineCommentPrefix" must not be the same.');
+    }
 }
 
 /**
@@ -183,7 +325,9 @@ export class Swig {
     private cache: { [key: string]: TemplateCompiled };
     private extensions: {};
     private filters: Filters;
+    private tests: Tests;
     private tags: Tags;
+    private owned: string[];
 
     /**
      * Creates an instance of Swig.
@@ -196,7 +340,62 @@ export class Swig {
         this.cache = {};
         this.extensions = {};
         this.filters = filters;
+        this.tests = tests;
         this.tags = tags;
+        this.owned = ['extensions'];
+    }
+
+    /**
+     * Create a child environment that inherits the filters, tests, tags and extensions of this one.
+     * The registries are shared until either environment changes them, so changes made to one are never seen by the other.
+     *
+     * @example
+     * var email = swig.fork({ autoescape: false });
+     * email.setFilter('plain', toPlainText);
+     * // => swig does not have the "plain" filter
+     *
+     * @param [opts={}]   Swig options object, merged over the options of this environment.
+     * @returns {Swig}
+     */
+    public fork(opts: SwigOptions = {}): Swig {
+        const child = new Swig(utils.extend({}, this.options, opts));
+
+        child.filters = this.filters;
+        child.tests = this.tests;
+        child.tags = this.tags;
+        child.extensions = this.extensions;
+        child.owned = [];
+        this.owned = [];
+
+        return child;
+    }
+
+    /**
+     * Copy a registry the first time it is changed, registries shared with other environments are never modified.
+     *
+     * @private
+     * @param registry    Name of the registry that is about to change.
+     */
+    private own(registry: 'filters' | 'tests' | 'tags' | 'extensions'): void {
+        if (this.owned.indexOf(registry) !== -1) {
+            return;
+        }
+
+        this[registry] = utils.extend({}, this[registry]);
+        this.owned.push(registry);
+    }
+
+    /**
+     * Merge options into the defaults of this environment.
+     *
+     * @example
+     * swig.setDefaults({ cache: false, locals: { now: function () { return new Date(); } } });
+     *
+     * @param [opts={}]   Swig options object.
+     */
+    public setDefaults(opts: SwigOptions = {}): void {
+        validateOptions(opts);
+        this.options = utils.extend({}, this.options, opts);
     }
 
     /**
@@ -274,9 +473,63 @@ export class Swig {
      * @param method    Function that acts against the input.
      */
     public setFilter(name: string, method: (...args) => any): void {
+        this.own('filters');
         this.filters[name] = method;
     }
 
+    /**
+     * Remove a filter from this environment.
+     *
+     * @param name    Name of filter.
+     */
+    public removeFilter(name: string): void {
+        this.own('filters');
+        delete this.filters[name];
+    }
+
+    /**
+     * List the names of the filters available in this environment.
+     *
+     * @returns {string[]}
+     */
+    public listFilters(): string[] {
+        return utils.keys(this.filters);
+    }
+
+    /**
+     * Add a custom test, used in templates with the `is` keyword.
+     * 
+     * @example
+     * swig.setTest('long', function (input, length) { return input.length > (length || 10); });
+     * // => {% if title is long(20) %}{{ title|truncate(20) }}{% endif %}
+     * 
+     * @param name      Name of test, used in templates. Will overwrite previously defined tests, if using same name.
+     * @param method    Function that checks the input and returns true or false.
+     */
+    public setTest(name: string, method: (...args) => boolean): void {
+        this.own('tests');
+        this.tests[name] = method;
+    }
+
+    /**
+     * Remove a test from this environment.
+     *
+     * @param name    Name of test.
+     */
+    public removeTest(name: string): void {
+        this.own('tests');
+        delete this.tests[name];
+    }
+
+    /**
+     * List the names of the tests available in this environment.
+     *
+     * @returns {string[]}
+     */
+    public listTests(): string[] {
+        return utils.keys(this.tests);
+    }
+
     /**
      * Add a custom tag. To expose your own extensions to compiled template code.
      * 
@@ -302,6 +555,7 @@ export class Swig {
             throw new Error(`Tag "${name}" compile method is not a valid function.`);
         }
 
+        this.own('tags');
         this.tags[name] = {
             parse: parse,
             compile: compile,
@@ -310,6 +564,25 @@ export class Swig {
         }
     }
 
+    /**
+     * Remove a tag from this environment.
+     *
+     * @param name    Tag name.
+     */
+    public removeTag(name: string): void {
+        this.own('tags');
+        delete this.tags[name];
+    }
+
+    /**
+     * List the names of the tags available in this environment.
+     *
+     * @returns {string[]}
+     */
+    public listTags(): string[] {
+        return utils.keys(this.tags);
+    }
+
     /**
      * Add extensions for custom tags. 
      * This allows any custom tag to access a globally available methods via a special globally available object, _ext, in templates.
@@ -325,6 +598,7 @@ export class Swig {
      * @param  object The method, value, or object that should be available via the given name.
      */
     public setExtension(name: string, object: (value: any) => string): void {
+        this.own('extensions');
         this.extensions[name] = object;
     };
 
@@ -366,7 +640,7 @@ export class Swig {
         options = utils.extend({}, this.options, opts);
         options.locals = locals;
 
-        return parser.parse(this, source, options, this.tags, this.filters);
+        return parser.parse(this, source, options, this.tags, this.filters, this.tests);
     }
 
     /**
@@ -389,6 +663,95 @@ export class Swig {
         return this.parse(src, options);
     }
 
+    /**
+     * Check a template source for problems, without stopping at the first one.
+     * Every unknown tag, filter or test, unexpected or missing end tag and bad token is listed, in the order of the source.
+     *
+     * @example
+     * swig.check('{% tacos %}{{ a|nope }}');
+     * // => [{ severity: 'error', message: 'Unexpected tag "tacos"', line: 1, column: 1, ... },
+     * //     { severity: 'error', message: 'Invalid filter "nope"', line: 1, column: 16, ... }]
+     *
+     * @param  source          Swig template source.
+     * @param  [options={}]    Swig options object.
+     * @return {Diagnostic[]}  Problems found, empty for a good template.
+     */
+    public check(source: string, options: SwigOptions = {}): Diagnostic[] {
+        const diagnostics: Diagnostic[] = [];
+
+        validateOptions(options);
+        parser.parse(this, source, utils.extend({}, this.options, options), this.tags, this.filters, this.tests, diagnostics);
+
+        return diagnostics;
+    }
+
+    /**
+     * Check a template file for problems, without stopping at the first one.
+     *
+     * @param  pathname        File location.
+     * @param  [options={}]    Swig options object.
+     * @return {Diagnostic[]}  Problems found, empty for a good template.
+     */
+    public checkFile(pathname: string, options: SwigOptions = {}): Diagnostic[] {
+        pathname = this.options.loader.reslove(pathname, options.resolveFrom);
+        if (!options.filename) {
+            options = utils.extend({ filename: pathname }, options);
+        }
+
+        return this.check(this.options.loader.load(pathname), options);
+    }
+
+    /**
+     * Parse a source string into a JSON serializable tree of its text, output, tags, blocks and comments.
+     * Every node has its source range, tags have their arguments as expression nodes.
+     *
+     * @example
+     * swig.parseToAst('{{ name|upper }}').body[0];
+     * // => { type: 'Output', expression: { type: 'Filter', name: 'upper', input: { type: 'Variable', name: 'name', ... }, ... }, ... }
+     *
+     * @param  source          Swig template source.
+     * @param  [options={}]    Swig options object.
+     * @return {TemplateAst}
+     */
+    public parseToAst(source: string, options: SwigOptions = {}): nodes.TemplateAst {
+        validateOptions(options);
+
+        return ast.parse(source, utils.extend({}, this.options, options), this.tags);
+    }
+
+    /**
+     * Print a tree from `parseToAst`, or any of its nodes, back to template source.
+     *
+     * @param  node            Template, template node or expression node.
+     * @param  [options={}]    Swig options object.
+     * @return {string}
+     */
+    public printAst(node: nodes.TemplateAst | nodes.AstNode | nodes.Expression, options: SwigOptions = {}): string {
+        return ast.print(node, utils.extend({}, this.options, options));
+    }
+
+    /**
+     * Compile a tree from `parseToAst`, that may have been changed, into a renderable template function.
+     * The filename of the tree is used when the options do not have one.
+     * Tags and output are compiled at the lines and columns of their source ranges, so errors point at the template that the tree was read from.
+     *
+     * @example
+     * var tree = swig.parseToAst('Hi {{ name }}');
+     * tree.body[1].expression.name = 'nickname';
+     * swig.compileAst(tree)({ nickname: 'Mo' });
+     * // => 'Hi Mo'
+     *
+     * @param  tree            Template tree.
+     * @param  [options={}]    Swig options object.
+     * @return {function}      Renderable function, as from `compile`.
+     */
+    public compileAst(tree: nodes.TemplateAst, options: SwigOptions = {}): TemplateCompiled {
+        // A changed tree must not be served from the cache of the file it was read from
+        options = utils.extend({ filename: tree.filename, cache: false }, options);
+
+        return this.compile(ast.layout(tree, utils.extend({}, this.options, options)), options);
+    }
+
     /**
      * Re-Map blocks within a list of tokens to the templatae's block objecs.
      * @param blocks 
@@ -442,16 +805,23 @@ export class Swig {
 
         while (parentName) {
             if (!options.filename) {
-                throw new Error(`Cannot extend "${parentName}" because current template has no filename.`);
+                utils.throwError(`Cannot extend "${parentName}" because current template has no filename`, null, null, 'compile');
             }
 
             parentFile = parentFile || options.filename;
             parentFile = this.options.loader.reslove(parentName, parentFile);
-            parent = this.cacheGet(parentFile, options) || this.parseFile(parentFile, utils.extend({}, options, { filename: parentFile }));
+            try {
+                parent = this.cacheGet(parentFile, options) || this.parseFile(parentFile, utils.extend({}, options, { filename: parentFile }));
+            } catch (err) {
+                if (err instanceof TemplateError) {
+                    utils.each(parentFiles.concat(options.filename).reverse(), (file) => err.within(file));
+                }
+                throw err;
+            }
             parentName = parent.parent;
 
             if (parentFiles.indexOf(parentFile) !== -1) {
-                throw new Error(`Illegal circular ectends of "${parentFile}".`);
+                utils.throwError(`Illegal circular ectends of "${parentFile}"`, null, options.filename, 'compile');
             }
             parentFiles.push(parentFile);
 
@@ -470,9 +840,10 @@ export class Swig {
      * Pre-compile a source string to a cache-able template function.
      * 
      * @example
-     * swig.preCompile('{{ tacos }}');
+     * swig.precompile('{{ tacos }}');
      * // => {
-     * //      tpl: function (_swig, _locals, _filters, _utils, _fn) { ... },
+     * //      tpl: function (_swig, _locals, _filters, _utils, _fn, _flush, _undef, _tests) { ... },
+     * //      source: 'function (_swig, _ctx, _filters, _utils, _fn, _flush, _undef, _tests) { ... }',
      * //      tokens: {
      * //        name: undefined,
      * //        parent: null,
@@ -482,13 +853,21 @@ export class Swig {
      * //    }
      * 
      * In order to render a pre-compiled template, you must have access to filter and utils from Swig. efn is simply an empty function that does nothing.
+     * _flush is optional, when given it receives the output rendered so far at every tag boundary.
+     * _undef is called with the path, line and context of any variable that is not defined, it is created for each render from the `strictVariables` and `onUndefined` options.
+     * _tests are the tests used with the `is` keyword.
+     * 
+     * The returned source is the same function as JavaScript source text, so it can be written to a file and executed later with `run`, without the lexer and parser.
+     * Templates that are included by file name at render time must also be given to `run` with their resolved file name.
      * 
-     * @param source    Swig template string.
-     * @param options   Swig options.
+     * @param source          Swig template string.
+     * @param [options={}]    Swig options.
      */
-    private preCompile(source: string, options: SwigOptions): { tpl: Function, tokens: ParsedToken } {
+    public precompile(source: string, options: SwigOptions = {}): { tpl: Function, source: string, tokens: ParsedToken } {
         let tokens = this.parse(source, options),
             parents = this.getParents(tokens, options),
+            params = ['_swig', '_ctx', '_filters', '_utils', '_fn', '_flush', '_undef', '_tests'],
+            body,
             tpl;
 
         if (parents.length) {
@@ -496,18 +875,53 @@ export class Swig {
             this.importNonBlocks(tokens.blocks, tokens.tokens);
         }
 
+        body = '  var _ext = _swig.extensions,\n' +
+            '    _output = "",\n' +
+            '    _line = 0,\n' +
+            '    _column = 0,\n' +
+            '    _file = ' + JSON.stringify(options.filename || '') + ';\n' +
+            '  try {\n' +
+            parser.compile(tokens, parents, options) + '\n' +
+            '  } catch (e) {\n' +
+            '    _utils.rethrow(e, _line, _file, _column, ' + JSON.stringify([options.filename].concat(utils.map(parents, (p) => p.name))) + ');\n' +
+            '  }\n' +
+            '  return _output;\n';
+
         try {
-            tpl = new Function('_swig', '_ctx', '_filters', '_utils', '_fn',
-                '  var _ext = _swig.extensions,\n' +
-                '    _output = "";\n' +
-                parser.compile(tokens, parents, options) + '\n' +
-                '  return _output;\n'
-            );
+            tpl = new Function(params.join(', '), body);
         } catch (error) {
-            utils.throwError(error, null, options.filename);
+            utils.throwError(String(error), null, options.filename, 'compile');
         }
 
-        return { tpl: tpl, tokens: tokens };
+        return { tpl: tpl, source: 'function (' + params.join(', ') + ') {\n' + body + '}', tokens: tokens };
+    }
+
+    /**
+     * Run a pre-compiled template function.
+     * This is most useful in the browser or in production, when templates have been compiled ahead of time with `precompile`.
+     *
+     * @example
+     * var source = swig.precompile('Hello {{ tacos }}').source;
+     * // Write `module.exports = ` + source to a file, then:
+     * swig.run(require('./tacos.js'), { tacos: 'Tacos!!!!' });
+     * // => Hello Tacos!!!!
+     *
+     * @param  tpl          Pre-compiled template function.
+     * @param  [locals={}]  Template variable context.
+     * @param  [filename]   Resolved file name of the template. If given, the template is cached so that it can be included by other templates.
+     * @return {string}     Rendered output.
+     */
+    public run(tpl: Function, locals?: {}, filename?: string): string {
+        const compiled: TemplateCompiled = (lcls, flush?, opts?) => {
+            const undef = undefinedHandler(utils.extend({}, this.options, opts, { filename: filename }));
+            return tpl(this, this.getLocals({ locals: lcls }), this.filters, utils, efn, flush || null, undef, this.tests);
+        };
+
+        if (filename) {
+            this.cacheSet(filename, {}, compiled);
+        }
+
+        return compiled(locals);
     }
 
     /**
@@ -541,14 +955,24 @@ export class Swig {
      * swig.renderFile('./template.html', {});
      * // => output
      *
-     * @param  pathName     File location.
-     * @param  [locals={}]  Template variable context.
-     * @param  [cb]         Asyncronous callback function. If not provided, <var>compileFile will run syncronously.
+     * @example
+     * swig.renderFile('./template.html', {}, { strictVariables: true });
+     * // => output, or throws when the template reads a variable that is not defined
+     *
+     * @param  pathName       File location.
+     * @param  [locals={}]    Template variable context.
+     * @param  [options={}]   Swig options object.
+     * @param  [cb]           Asyncronous callback function. If not provided, <var>compileFile will run syncronously.
      * @return {string}
      */
-    public renderFile(pathName: string, locals: {} = {}, cb?) {
+    public renderFile(pathName: string, locals: {} = {}, options?: SwigOptions | Function, cb?) {
+        if (typeof options === 'function') {
+            cb = options;
+            options = {};
+        }
+
         if (cb) {
-            this.compileFile(pathName, {}, function (err, fn) {
+            this.compileFile(pathName, <SwigOptions>options, function (err, fn) {
                 let result;
 
                 if (err) {
@@ -568,7 +992,7 @@ export class Swig {
             return;
         }
 
-        return this.compileFile(pathName)(locals);
+        return this.compileFile(pathName, <SwigOptions>options)(locals);
     };
 
 
@@ -591,26 +1015,28 @@ export class Swig {
      * @param  source      Swig template source string.
      * @param  options     Swig options.
      * @return {function}                   Renderable function with keys for parent, blocks, and tokens.
+     *                                      An optional second argument receives chunks of output as they are rendered.
      */
     public compile(source: string, options: SwigOptions = {}): TemplateCompiled {
         let key = options ? options.filename : null,
             cached = key ? this.cacheGet(key, options) : null,
             filters = this.filters,
+            tests = this.tests,
             self = this,
             context,
             contextLength,
             pre;
 
         if (cached) {
-            return cached;
+            return bindUndefined(cached, options);
         }
 
         context = this.getLocals(options);
         contextLength = utils.keys(context).length;
-        pre = this.preCompile(source, options);
+        pre = this.precompile(source, options);
 
-        function compiled(locals) {
-            let lcls;
+        function compiled(locals, flush?, opts?: SwigOptions) {
+            let lcls, undef;
             if (locals && contextLength) {
                 lcls = utils.extend({}, context, locals);
             } else if (locals && !contextLength) {
@@ -621,7 +1047,16 @@ export class Swig {
                 lcls = {};
             }
 
-            return pre.tpl(self, lcls, filters, utils, efn);
+            undef = undefinedHandler(utils.extend({}, self.options, opts, { filename: options.filename }));
+            try {
+                return pre.tpl(self, lcls, filters, utils, efn, flush || null, undef, tests);
+            } catch (err) {
+                // Show the lines around errors of this template, included templates show their own
+                if (err instanceof TemplateError && err.filename === options.filename) {
+                    err.locate({ source: source });
+                }
+                throw err;
+            }
         }
 
         utils.extend(compiled, pre.tokes);
@@ -630,7 +1065,7 @@ export class Swig {
             this.cacheSet(key, options, compiled);
         }
 
-        return compiled;
+        return bindUndefined(compiled, options);
     }
 
     /**
@@ -644,6 +1079,11 @@ export class Swig {
     public compileFile(pathname: string, options: SwigOptions = {}, cb?: Function): Function {
         let src, cached;
 
+        if (cb) {
+            settle(this.compileFileAsync(pathname, options), cb as (err: Error, compiled?: TemplateCompiled) => void);
+            return;
+        }
+
         pathname = this.options.loader.reslove(pathname, options.resolveFrom);
         if (!options.filename) {
             options = utils.extend({ filename: pathname }, options);
@@ -651,41 +1091,288 @@ export class Swig {
         cached = this.cacheGet(pathname, options);
 
         if (cached) {
-            if (cb) {
-                cb(null, cached);
-                return;
+            return bindUndefined(cached, options);
+        }
+
+        src = this.options.loader.load(pathname);
+        return this.compile(src, options);
+    }
+
+    /**
+     * Compile file into a renderable template function.
+     * The file and every template it extends, includes or imports are loaded through the asynchronous loader before compiling.
+     *
+     * @example
+     * swig.compileFileAsync('./template.html').then(function (tpl) {
+     *   console.log(tpl({ tacos: 'Tacos!!!!' }));
+     * });
+     *
+     * @param   pathname        File location.
+     * @param   [options={}]    Swig options object.
+     * @returns {Promise<TemplateCompiled>}
+     */
+    public compileFileAsync(pathname: string, options: SwigOptions = {}): Promise<TemplateCompiled> {
+        let cached, sources: TemplateSources = {};
+
+        pathname = this.options.loader.reslove(pathname, options.resolveFrom);
+        if (!options.filename) {
+            options = utils.extend({ filename: pathname }, options);
+        }
+        cached = this.cacheGet(pathname, options);
+
+        if (cached) {
+            return Promise.resolve(bindUndefined(cached, options));
+        }
+
+        return this.preloadFile(pathname, options, sources).then(() => {
+            return this.withSources(sources, options).compile(<string>sources[pathname], options);
+        });
+    }
+
+    /**
+     * Compile and render a template string for final output, loading every template it extends, includes or imports asynchronously.
+     *
+     * @example
+     * swig.renderAsync('{% include "./partial.html" %}', { filename: __dirname + '/page.html' }).then(function (output) {
+     *   console.log(output);
+     * });
+     *
+     * @param   source          Swig template string.
+     * @param   [options={}]    Swig options object.
+     * @returns {Promise<string>}
+     */
+    public renderAsync(source: string, options: SwigOptions = {}): Promise<string> {
+        let sources: TemplateSources = {};
+
+        return this.preloadDependencies(source, options.filename, options, sources).then(() => {
+            return this.withSources(sources).render(source, options);
+        });
+    }
+
+    /**
+     * Compile and render a template file for final output, loading every template it extends, includes or imports asynchronously.
+     *
+     * @example
+     * swig.renderFileAsync('./template.html', { tacos: 'Tacos!!!!' }).then(function (output) {
+     *   console.log(output);
+     * });
+     *
+     * @param   pathName        File location.
+     * @param   [locals={}]     Template variable context.
+     * @param   [options={}]    Swig options object, as `{ cache: false }` to load the templates again for this render.
+     * @returns {Promise<string>}
+     */
+    public renderFileAsync(pathName: string, locals: {} = {}, options: SwigOptions = {}): Promise<string> {
+        return this.compileFileAsync(pathName, options).then((compiled) => {
+            return compiled(locals);
+        });
+    }
+
+    /**
+     * Create a view engine function for Express.js, or any framework using the same `(filePath, options, callback)` signature.
+     * Locals are merged from `options.settings`, `options._locals` and the render options.
+     * Express's `view cache` setting switches the template cache on and off for each render, without changing the options of this environment.
+     *
+     * @example
+     * app.engine('html', swig.createViewEngine());
+     * app.set('view engine', 'html');
+     *
+     * @returns {function}    View engine function.
+     */
+    public createViewEngine(): (filePath: string, options: { [key: string]: any }, cb: (err: Error, output?: string) => void) => void {
+        return (filePath, options, cb) => {
+            let settings = options.settings || {},
+                viewCache = options.hasOwnProperty('cache') ? options.cache : settings['view cache'],
+                locals = utils.extend({}, settings, options._locals, options);
+
+            settle(this.renderFileAsync(filePath, locals, { cache: !!viewCache }), cb);
+        };
+    }
+
+    /**
+     * Compile string source into a function that renders the template to a readable stream.
+     * Output is pushed to the stream at tag and include boundaries instead of being held until the whole template is rendered.
+     *
+     * @example
+     * var tpl = swig.compileStream('{{ header }}{% block body %}{{ slow() }}{% endblock %}');
+     * tpl({ header: 'Tacos', slow: makeTacos }).pipe(res);
+     *
+     * @param   source          Swig template source string.
+     * @param   [options={}]    Swig options.
+     * @returns {function}      Function that takes the template locals and returns a readable stream.
+     */
+    public compileStream(source: string, options: SwigOptions = {}): (locals?: {}) => Readable {
+        const compiled = this.compile(source, options);
+
+        return (locals) => {
+            return this.renderStream(Promise.resolve(compiled), locals);
+        };
+    }
+
+    /**
+     * Render a template file to a readable stream.
+     * The file and its dependencies are loaded asynchronously, output is pushed to the stream at tag and include boundaries.
+     *
+     * @example
+     * swig.renderFileStream('./template.html', { tacos: 'Tacos!!!!' }).pipe(res);
+     *
+     * @param   pathName        File location.
+     * @param   [locals={}]     Template variable context.
+     * @returns {Readable}
+     */
+    public renderFileStream(pathName: string, locals: {} = {}): Readable {
+        return this.renderStream(this.compileFileAsync(pathName), locals);
+    }
+
+    /**
+     * Render a compiled template into a new readable stream once it is available.
+     * Errors from compiling or rendering are emitted on the stream.
+     *
+     * @private
+     * @param compiled      Promise for the compiled template.
+     * @param [locals={}]   Template variable context.
+     * @returns {Readable}
+     */
+    private renderStream(compiled: Promise<TemplateCompiled>, locals: {} = {}): Readable {
+        const stream = new Readable({ read: function () { } });
+
+        function push(chunk: string) {
+            if (chunk) {
+                stream.push(chunk);
             }
-            return cached;
         }
 
-        if (cb) {
+        compiled.then((fn) => {
+            push(fn(locals, push));
+            stream.push(null);
+        }).catch((err) => {
+            // Outside of the promise, an error that nothing listens for is thrown rather than lost
+            process.nextTick(() => stream.emit('error', err));
+        });
+
+        return stream;
+    }
+
+    /**
+     * Asynchronously load a template file and all of its dependencies into the sources map.
+     *
+     * @private
+     * @param pathname  Resolved template identifier.
+     * @param options   Swig options object.
+     * @param sources   Loaded sources, keyed by template identifier.
+     * @returns {Promise<void>}
+     */
+    private preloadFile(pathname: string, options: SwigOptions, sources: TemplateSources): Promise<void> {
+        if (sources.hasOwnProperty(pathname)) {
+            return Promise.resolve();
+        }
+        sources[pathname] = null;
+
+        return new Promise<string>((resolve, reject) => {
             this.options.loader.load(pathname, (err, src) => {
                 if (err) {
-                    cb(err);
+                    reject(err);
                     return;
                 }
+                resolve(src);
+            });
+        }).then((src) => {
+            sources[pathname] = src;
+            return this.preloadDependencies(src, pathname, options, sources);
+        });
+    }
 
-                let compield;
+    /**
+     * Asynchronously load every template that a source string extends, includes or imports.
+     * Failed dependencies are kept in the sources map, so the error is thrown where the synchronous compile would have thrown it.
+     *
+     * @private
+     * @param source      Swig template source.
+     * @param filename    Identifier of the template the source belongs to.
+     * @param options     Swig options object.
+     * @param sources     Loaded sources, keyed by template identifier.
+     * @returns {Promise<void>}
+     */
+    private preloadDependencies(source: string, filename: string, options: SwigOptions, sources: TemplateSources): Promise<void> {
+        const deps = parser.dependencies(source, utils.extend({}, this.options, options));
 
-                try {
-                    compield = this.compile(src, options);
-                } catch (err2) {
-                    cb(err2);
-                    return;
-                }
+        return Promise.all(utils.map(deps, (dep) => {
+            const pathname = this.options.loader.reslove(dep, filename);
 
-                cb(err, compield);
+            return this.preloadFile(pathname, options, sources).catch((err) => {
+                sources[pathname] = err;
             });
-            return;
-        }
+        })).then(() => undefined);
+    }
 
-        src = this.options.loader.load(pathname);
-        return this.compile(src, options);
+    /**
+     * Derive an environment that loads templates from the given sources before falling back to the configured loader.
+     *
+     * @private
+     * @param sources   Loaded sources, keyed by template identifier.
+     * @param [options={}]  Swig options object of the template being compiled.
+     * @returns {Swig}
+     */
+    private withSources(sources: TemplateSources, options: SwigOptions = {}): Swig {
+        const loader = this.options.loader,
+            swig: Swig = Object.create(this);
+
+        swig.options = utils.extend({}, this.options, {
+            // Includes are compiled when the template runs, they skip the cache when the template did
+            cache: this.shouldCache(options) ? false : this.options.cache,
+            loader: {
+                reslove: loader.reslove,
+                load: (identifier, cb) => {
+                    if (!sources.hasOwnProperty(identifier) || sources[identifier] === null) {
+                        return loader.load(identifier, cb);
+                    }
+
+                    const src = sources[identifier];
+                    if (src instanceof Error) {
+                        if (cb) {
+                            cb(src, undefined);
+                            return;
+                        }
+                        throw src;
+                    }
+
+                    if (cb) {
+                        cb(null, src);
+                        return;
+                    }
+                    return src;
+                }
+            }
+        });
+
+        return swig;
     }
 }
 
+/**
+ * The shared environment used by the module-level API.
+ * @private
+ */
+const defaultInstance = new Swig();
+
 export default {
     setDefaultTZOffset,
+    setDefaults: (opts: SwigOptions) => defaultInstance.setDefaults(opts),
+    invalidateCache: () => defaultInstance.invalidateCache(),
+    setFilter: (name: string, method: (...args) => any) => defaultInstance.setFilter(name, method),
+    setTest: (name: string, method: (...args) => boolean) => defaultInstance.setTest(name, method),
+    setTag: (name: string, parse: ParseFunction, compile: CompileFunction, ends?: boolean, blockLevel?: boolean) => defaultInstance.setTag(name, parse, compile, ends, blockLevel),
+    setExtension: (name: string, object: (value: any) => string) => defaultInstance.setExtension(name, object),
+    render: (source: string, options?: SwigOptions) => defaultInstance.render(source, options),
+    renderFile: (pathName: string, locals?: {}, cb?) => defaultInstance.renderFile(pathName, locals, cb),
+    compile: (source: string, options?: SwigOptions) => defaultInstance.compile(source, options),
+    check: (source: string, options?: SwigOptions) => defaultInstance.check(source, options),
+    checkFile: (pathname: string, options?: SwigOptions) => defaultInstance.checkFile(pathname, options),
+    parseToAst: (source: string, options?: SwigOptions) => defaultInstance.parseToAst(source, options),
+    printAst: (node: nodes.TemplateAst | nodes.AstNode | nodes.Expression, options?: SwigOptions) => defaultInstance.printAst(node, options),
+    compileAst: (tree: nodes.TemplateAst, options?: SwigOptions) => defaultInstance.compileAst(tree, options),
+    compileFile: (pathname: string, options?: SwigOptions, cb?: Function) => defaultInstance.compileFile(pathname, options, cb),
+    __express: defaultInstance.createViewEngine(),
     loaders: {
         fs: fs,
         memory: memory
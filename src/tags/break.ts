@@ -0,0 +1,55 @@
+import { CompileFunction, ParseFunction } from './index';
+import utils from '../utils';
+import { hasEmpty } from './empty';
+
+/**
+ * Tags that compile their contents into a function of their own, out of reach of the loop around them.
+ * @private
+ */
+const wrapping = ['filter', 'macro', 'spaceless'];
+
+/**
+ * Whether a tag is inside of the body of a loop, and not in its <code data-language="swig">{% empty %}</code> branch.
+ *
+ * @param stack   Open tags, the innermost last.
+ * @return {boolean}
+ */
+export function inLoop(stack: any[]): boolean {
+    for (let i = stack.length - 1; i >= 0; i -= 1) {
+        if (stack[i].name === 'for') {
+            return !hasEmpty(stack[i]);
+        }
+        if (wrapping.indexOf(stack[i].name) !== -1) {
+            return false;
+        }
+    }
+    return false;
+}
+
+/**
+ * Stop a <code data-language="swig">{% for %}</code> loop. The rest of the current iteration is skipped, and the loop variables are restored as the loop ends.
+ *
+ * @alias break
+ *
+ * @example
+ * // arr = [1, 2, 3, 4]
+ * {% for x in arr %}{% if x > 2 %}{% break %}{% endif %}{{ x }}{% endfor %}
+ * // => 12
+ *
+ */
+const compile: CompileFunction = function () {
+    return '__break = true; break __iteration;\n';
+}
+
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
+    parser.on('*', function (token) {
+        utils.throwError('"break" tag does not accept any tokens. Found "' + token.match + '"', line, opts.filename);
+    });
+
+    return inLoop(stack);
+}
+
+export default {
+    compile: compile,
+    parse: parse
+}
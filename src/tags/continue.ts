@@ -0,0 +1,31 @@
+import { CompileFunction, ParseFunction } from './index';
+import { inLoop } from './break';
+import utils from '../utils';
+
+/**
+ * Skip the rest of the current iteration of a <code data-language="swig">{% for %}</code> loop, and go on with the next one.
+ *
+ * @alias continue
+ *
+ * @example
+ * // arr = [1, 2, 3, 4]
+ * {% for x in arr %}{% if x is odd %}{% continue %}{% endif %}{{ x }}{% endfor %}
+ * // => 24
+ *
+ */
+const compile: CompileFunction = function () {
+    return 'break __iteration;\n';
+}
+
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
+    parser.on('*', function (token) {
+        utils.throwError('"continue" tag does not accept any tokens. Found "' + token.match + '"', line, opts.filename);
+    });
+
+    return inLoop(stack);
+}
+
+export default {
+    compile: compile,
+    parse: parse
+}
@@ -1,5 +1,7 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
+import { hasEmpty } from './empty';
 /**
  * Used within an <code data-language="swig">{% if %}</code> tag, the code block following this tag up until <code data-language="swig">{% endif %}</code> will be rendered if the <i>if</i> statement returns false.
  *
@@ -13,17 +15,30 @@ import { TYPES as types } from '../lexer';
  * {% endif %}
  * // => statement2
  *
+ * @example
+ * // Within a {% for %} tag, the same as {% empty %}
+ * {% for x in [] %}
+ *   {{ x }}
+ * {% else %}
+ *   Nothing here
+ * {% endfor %}
+ * // => Nothing here
+ *
  */
 const compile: CompileFunction = function () {
     return `} else {\n`;
 }
 
-const parse: ParseFunction = function (str, line, parser, stack) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     parser.on('*', function (token) {
-        throw new Error('"else" tag does not accept any tokens. Found "' + token.match + '" on line ' + line + '.');
+        utils.throwError('"else" tag does not accept any tokens. Found "' + token.match + '"', line, opts.filename);
     });
 
-    return (stack.length && stack[stack.length - 1].name === 'if');
+    if (stack.length && stack[stack.length - 1].name === 'for' && hasEmpty(stack[stack.length - 1])) {
+        utils.throwError('Unexpected tag "else"', line, opts.filename, 'parse', 'A loop has only one "empty" or "else" branch.');
+    }
+
+    return (stack.length && (stack[stack.length - 1].name === 'if' || stack[stack.length - 1].name === 'for'));
 }
 
 export default {
@@ -0,0 +1,52 @@
+import { CompileFunction, ParseFunction } from './index';
+import utils from '../utils';
+
+/**
+ * Whether a loop already has its <code data-language="swig">{% empty %}</code> or <code data-language="swig">{% else %}</code> branch.
+ *
+ * @param loop    Open <code data-language="swig">{% for %}</code> tag.
+ * @return {boolean}
+ */
+export function hasEmpty(loop: any): boolean {
+    return loop.content.some((token) => token && (token.name === 'empty' || token.name === 'else'));
+}
+
+/**
+ * Used within a <code data-language="swig">{% for %}</code> tag, the code block following this tag up until <code data-language="swig">{% endfor %}</code> will be rendered if there is nothing to loop over.
+ * <code data-language="swig">{% else %}</code> works the same way in a loop.
+ *
+ * @alias empty
+ *
+ * @example
+ * // results = []
+ * {% for result in results %}
+ *   {{ result }}
+ * {% empty %}
+ *   No results
+ * {% endfor %}
+ * // => No results
+ *
+ */
+const compile: CompileFunction = function () {
+    return '';
+}
+
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
+    parser.on('*', function (token) {
+        utils.throwError('"empty" tag does not accept any tokens. Found "' + token.match + '"', line, opts.filename);
+    });
+
+    if (!stack.length || stack[stack.length - 1].name !== 'for') {
+        return false;
+    }
+    if (hasEmpty(stack[stack.length - 1])) {
+        utils.throwError('Unexpected tag "empty"', line, opts.filename, 'parse', 'A loop has only one "empty" or "else" branch.');
+    }
+
+    return true;
+}
+
+export default {
+    compile: compile,
+    parse: parse
+}
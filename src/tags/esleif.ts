@@ -6,8 +6,8 @@ const compile: CompileFunction = function (compiler, args) {
     return `} else if ( ${args.join(' ')} ) {\n`;
 };
 
-const parse: ParseFunction = function (str, line, parser, stack) {
-    let okay = ifparser.parse(str, line, parser);
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
+    let okay = ifparser.parse(str, line, parser, stack, opts);
     return okay && (stack.length && stack[stack.length - 1].name === 'if');
 }
 
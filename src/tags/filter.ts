@@ -1,6 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
-import filters from '../filters';
+import utils from '../utils';
 
 
 /**
@@ -26,7 +26,7 @@ import filters from '../filters';
 const compile: CompileFunction = function (compiler, args: string[], contents, parents, options, blockName) {
     let filter = args.shift().replace(/\($/, ''),
         val = '(function () {\n' +
-            '  var _output = "";\n' +
+            '  var _output = "", _flush = null;\n' +
             compiler(contents, parents, options, blockName) +
             '  return _output;\n' +
             '})()';
@@ -43,8 +43,8 @@ const parse: ParseFunction = function (str, line, parser, stack, opts) {
     let filter;
 
     function check(filter) {
-        if (!(filters as Object).hasOwnProperty(filter)) {
-            throw new Error('Filter "' + filter + '" does not exist on line ' + line + '.');
+        if (!parser.filters.hasOwnProperty(filter)) {
+            utils.throwError('Filter "' + filter + '" does not exist', line, opts.filename);
         }
     }
 
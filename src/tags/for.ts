@@ -1,7 +1,18 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 const ctx = '_ctx.',
-    ctxloop = ctx + 'loop';
+    ctxloop = ctx + 'loop',
+    // Tokens that end an operand, so that a `recursive` after them is not a variable
+    _operands = [types.VAR, types.STRING, types.NUMBER, types.BOOL, types.PARENCLOSE, types.BRACKETCLOSE, types.CURLYCLOSE, types.FILTEREMPTY, types.FUNCTIONEMPTY, types.TESTEMPTY];
+
+/**
+ * Names of a pattern of names to unpack, in order.
+ * @private
+ */
+function flatten(pattern: any[]): string[] {
+    return [].concat(...utils.map(pattern, (name) => (typeof name === 'string') ? [name] : flatten(name)));
+}
 
 /**
  * Loop over objects and arrays.
@@ -30,6 +41,43 @@ const ctx = '_ctx.',
  * //    1 -- 2
  * //    2 -- 1
  *
+ * @example
+ * // Loop over a range of numbers, `1..5` includes 5, `range(1, 5)` stops before it
+ * {% for star in 1..5 %}*{% endfor %}
+ * // => *****
+ *
+ * @example
+ * // Render something else when there is nothing to loop over, with `empty` or `else`
+ * {% for x in [] %}{{ x }}{% empty %}Nothing{% endfor %}
+ * // => Nothing
+ *
+ * @example
+ * // Unpack each item into names, with parentheses or brackets
+ * // scores = { ann: [3, 'gold'], bo: [2, 'silver'] }
+ * {% for name, (points, medal) in scores %}{{ name }}: {{ points }} {{ medal }} {% endfor %}
+ * // => ann: 3 gold bo: 2 silver
+ *
+ * @example
+ * // Only loop over the items that pass a condition, the loop counters count only them
+ * {% for x in [1, 2, 3, 4] if x is even %}{{ loop.index }}: {{ x }} {% endfor %}
+ * // => 1: 2 2: 4
+ *
+ * @example
+ * // A recursive loop renders other items with its body by calling `loop`
+ * // tree = [{ name: 'a', children: [{ name: 'b', children: [] }] }]
+ * {% for node in tree recursive %}<li>{{ node.name }}<ul>{{ loop(node.children) }}</ul></li>{% endfor %}
+ * // => <li>a<ul><li>b<ul></ul></li></ul></li>
+ *
+ * @example
+ * // Stop early with `break`, skip to the next item with `continue`
+ * {% for x in 1..10 %}{% if x is odd %}{% continue %}{% endif %}{% if x > 6 %}{% break %}{% endif %}{{ x }}{% endfor %}
+ * // => 246
+ *
+ * @example
+ * // people = [{ name: 'Ann', city: 'Oslo' }, { name: 'Bo', city: 'Oslo' }, { name: 'Cy', city: 'Rome' }]
+ * {% for p in people %}{% if loop.changed(p.city) %}<h2>{{ p.city }}</h2>{% endif %}<p class="{{ loop.cycle('odd', 'even') }}">{{ p.name }}</p>{% endfor %}
+ * // => <h2>Oslo</h2><p class="odd">Ann</p><p class="even">Bo</p><h2>Rome</h2><p class="odd">Cy</p>
+ *
  *
  * @param compiler
  * @param args
@@ -44,85 +92,206 @@ const ctx = '_ctx.',
  * @return {loop.key} If the iterator is an object, this will be the key of the current item, otherwise it will be the same as the loop.index.
  * @return {loop.first} True if the current object is the first in the object or array.
  * @return {loop.last} True if the current object is the last in the object or array.
+ * @return {loop.length} The number of items in the object or array.
+ * @return {loop.depth} The nesting level of the loop (1-indexed)
+ * @return {loop.depth0} The nesting level of the loop (0-indexed)
+ * @return {loop.parent} The loop around the current loop, if any.
+ * @return {loop.previtem} The item before the current one. Undefined for the first item.
+ * @return {loop.nextitem} The item after the current one. Undefined for the last item.
+ * @return {loop.cycle} Function that picks one of its arguments in turn, as `loop.cycle('odd', 'even')`.
+ * @return {loop.changed} Function that is true when its arguments differ from the last time it was called, as for group headers.
+ * @return {loop} In a recursive loop, a function that renders the items it is called with, with the body of the loop.
  */
 const compile: CompileFunction = function (compiler, args: string[], content, parents, options, blockName) {
     let val = args.shift(),
         key = '__k',
         ctxloopcache = (ctx + '__loopcache' + Math.random()).replace(/\./g, ''),
+        branch = content.findIndex((token) => token && (token.name === 'empty' || token.name === 'else')),
+        empty = [],
+        recursive = args[args.length - 1] === 'recursive',
+        condition,
+        test,
+        pattern,
+        names: string[],
+        assign,
+        restore,
         last;
 
+    // The contents after {% empty %} or {% else %} are rendered when there is nothing to loop over
+    if (branch !== -1) {
+        empty = content.slice(branch + 1);
+        content = content.slice(0, branch);
+    }
+
     if (args[0] && args[0] === ',') {
         args.shift();
         key = val;
         val = args.shift();
     }
 
+    // `if` and `recursive` are kept apart from the items by the parser
+    if (recursive) {
+        args.pop();
+    }
+    condition = args.indexOf('if');
+    if (condition !== -1) {
+        test = args.splice(condition).slice(1).join('');
+    }
     last = args.join('');
 
+    // Unpacked items are passed as `__v`, and their names are set from it
+    if (val.charAt(0) === '[') {
+        pattern = val;
+        val = '__v';
+        names = flatten(JSON.parse(pattern)).concat(key);
+    } else {
+        names = [val, key];
+    }
+    assign = pattern ? '_utils.extend(_ctx, _utils.unpack(' + pattern + ', __v));\n' : ctx + val + ' = ' + val + ';\n';
+    restore = utils.map(names, (name) => ctx + name + ' = ' + ctxloopcache + '.' + name + ';\n').join('    ');
+
     return [
-        '(function () {\n',
-        '   var __l = ' + last + ', __len = (_utils.isArray(__l) || typeof __l === "string") ? __l.length : _utils.keys(__l).length;\n',
-        '   if(!__l) { return; };\n',
-        '       var ' + ctxloopcache + ' = { loop: ' + ctxloop + ', ' + val + ': ' + ctx + val + ', ' + key + ': ' + ctx + key + ' };\n',
-        '   ' + ctxloop + ' = {first: false, index: 1, index0: 0, revindex: __len, revindex0: __len - 1, length: __len, last: false };\n',
+        // A recursive loop is a function that renders the body for the items it is called with
+        recursive ? '_output += (function __loop(__l) {\n   var _output = "", _flush = null, __len, __break = false;\n' :
+            '(function () {\n   var __l = ' + last + ', __len, __break = false;\n',
+        '   var ' + ctxloopcache + ' = { loop: ' + ctxloop + ', ' + utils.map(names, (name) => name + ': ' + ctx + name).join(', ') + ' };\n',
+        test ? [
+            '   if (__l) {\n',
+            '    __l = _utils.select(__l, function(' + val + ', ' + key + ') {\n',
+            '     ' + assign,
+            '     ' + ctx + key + ' = ' + key + ';\n',
+            '     return ' + test + ';\n',
+            '    });\n',
+            '    ' + restore,
+            '   }\n'
+        ].join('') : '',
+        '   __len = (_utils.isArray(__l) || typeof __l === "string") ? __l.length : _utils.keys(__l).length;\n',
+        '   if (!__l || !__len) {\n',
+        '   ' + compiler(empty, parents, options, blockName),
+        '   return' + (recursive ? ' _output' : '') + ';\n',
+        '   }\n',
+        '   ' + ctxloop + ' = ' + (recursive ? '_utils.Loop.recursive(new _utils.Loop(__l, ' + ctxloopcache + '.loop), __loop)' : 'new _utils.Loop(__l, ' + ctxloopcache + '.loop)') + ';\n',
         '   _utils.each(__l, function(' + val + ', ' + key + ') {\n',
-        '   ' + ctx + val + ' = ' + val + ';\n',
+        '    if (__break) { return; }\n',
+        '    ' + assign,
         '    ' + ctx + key + ' = ' + key + ';\n',
         '    ' + ctxloop + '.key = ' + key + ';\n',
         '    ' + ctxloop + '.first = (' + ctxloop + '.index0 === 0);\n',
         '    ' + ctxloop + '.last = (' + ctxloop + '.revindex0 === 0);\n',
+        '    __iteration: {\n',
         '    ' + compiler(content, parents, options, blockName),
+        '    }\n',
         '    ' + ctxloop + '.index += 1; ' + ctxloop + '.index0 += 1; ' + ctxloop + '.revindex -= 1; ' + ctxloop + '.revindex0 -= 1;\n',
         '  });\n',
         '  ' + ctxloop + ' = ' + ctxloopcache + '.loop;\n',
-        '  ' + ctx + val + ' = ' + ctxloopcache + '.' + val + ';\n',
-        '  ' + ctx + key + ' = ' + ctxloopcache + '.' + key + ';\n',
+        '  ' + restore,
         '  ' + ctxloopcache + ' = undefined;\n',
-        '})();\n'
+        recursive ? '  return _output;\n})(' + last + ');\n' : '})();\n'
     ].join('');
 }
 
-const parse: ParseFunction = function (str, line, parser) {
-    let firstVar, ready;
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
+    let ready, filtered;
+    // Names before `in`, with the names of unpacked items in arrays
+    const targets = [],
+        open: any[][] = [targets],
+        closers: number[] = [];
 
     parser.on(types.NUMBER, function (token) {
         let lastState = this.state.length ? this.state[this.state.length - 1] : null;
+        if (filtered) {
+            return true;
+        }
         if (!ready ||
             (lastState !== types.ARRAYOPEN &&
                 lastState !== types.CURLYOPEN &&
                 lastState !== types.CURLYCLOSE &&
+                lastState !== types.COLON &&
+                lastState !== types.BRACKETOPEN &&
                 lastState !== types.FUNCTION &&
                 lastState !== types.FILTER)) {
-            throw new Error('Unexpected number "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected number "' + token.match + '"', line, opts.filename);
         }
         return true;
     });
 
     parser.on(types.VAR, function (token) {
-        if (ready && firstVar) {
-            return true;
+        // `recursive` ends the tag, after the items or the condition
+        if (ready && token.match === 'recursive' && this.isLast && !this.state.length && _operands.indexOf(this.prevToken.type) !== -1) {
+            this.out.push(token.match);
+            return;
         }
 
-        if (!this.out.length) {
-            firstVar = true;
+        if (ready) {
+            return true;
         }
 
-        this.out.push(token.match);
+        // Names before `in` are separated by commas
+        if (this.prevToken && [types.COMMA, types.PARENOPEN, types.BRACKETOPEN].indexOf(this.prevToken.type) === -1) {
+            utils.throwError('Unexpected variable "' + token.match + '"', line, opts.filename);
+        }
+        open[open.length - 1].push(token.match);
     });
 
     parser.on(types.COMMA, function (token) {
-        if (firstVar && this.prevToken.type === types.VAR) {
-            this.out.push(token.match);
+        if (!ready && this.prevToken && [types.VAR, types.PARENCLOSE, types.BRACKETCLOSE].indexOf(this.prevToken.type) !== -1) {
             return;
         }
 
         return true;
     });
 
+    // `(a, b)` and `[a, b]` before `in` unpack an item into names
+    utils.each([types.PARENOPEN, types.BRACKETOPEN], (type) => {
+        parser.on(type, function (token) {
+            const names = [];
+
+            if (ready) {
+                return true;
+            }
+            open[open.length - 1].push(names);
+            open.push(names);
+            closers.push((type === types.PARENOPEN) ? types.PARENCLOSE : types.BRACKETCLOSE);
+        });
+    });
+
+    utils.each([types.PARENCLOSE, types.BRACKETCLOSE], (type) => {
+        parser.on(type, function (token) {
+            if (ready) {
+                return true;
+            }
+            if (closers.pop() !== type) {
+                utils.throwError('Unexpected "' + token.match + '"', line, opts.filename);
+            }
+            open.pop();
+        });
+    });
+
+    parser.on(types.CONDITIONAL, function (token) {
+        // `if` without an `else` filters the items
+        if (token.match !== 'if' || !ready || filtered || this.state.length) {
+            return true;
+        }
+        filtered = true;
+        this.out.push(token.match);
+        this.filterApplyIdx.push(this.out.length);
+    });
+
     parser.on(types.COMPARATOR, function (token) {
-        if (token.match !== 'in' || !firstVar) {
-            throw new Error('Unexpected token "' + token.match + '" on line ' + line + '.');
+        if (filtered) {
+            return true;
+        }
+        if (token.match !== 'in' || !targets.length) {
+            utils.throwError('Unexpected token "' + token.match + '"', line, opts.filename);
+        }
+        if (open.length > 1 || targets.length > 2 || (targets.length === 2 && typeof targets[0] !== 'string')) {
+            utils.throwError('Expected "value", "key, value" or names to unpack the value into before "in"', line, opts.filename);
+        }
+        if (targets.length === 2) {
+            this.out.push(targets[0], ',');
         }
+        // The compiler reads names to unpack as JSON
+        this.out.push((typeof targets[targets.length - 1] === 'string') ? targets[targets.length - 1] : JSON.stringify(targets[targets.length - 1]));
         ready = true;
         this.filterApplyIdx.push(this.out.length);
     });
@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 /**
  * Used to create conditional statements in templates. Accepts most JavaScript valid comparisons.
  *
@@ -48,17 +49,17 @@ const compile: CompileFunction = function (compiler, args, content, parents, opt
         }`;
 }
 
-const parse: ParseFunction = function (str, line, parser) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     if (typeof str === 'undefined') {
-        throw new Error('No conditional statement provided on line ' + line + '.');
+        utils.throwError('No conditional statement provided', line, opts.filename);
     }
 
     parser.on(types.COMPARATOR, function (token) {
         if (this.isLast) {
-            throw new Error('Unexpected logic "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected logic "' + token.match + '"', line, opts.filename);
         }
         if (this.prevToken.type === types.NOT) {
-            throw new Error('Attempted logic "not ' + token.match + '" on line ' + line + '. Use !(foo ' + token.match + ') instead.');
+            utils.throwError('Attempted logic "not ' + token.match + '"', line, opts.filename, 'parse', 'Use !(foo ' + token.match + ') instead.');
         }
         this.out.push(token.match);
         this.filterApplyIdx.push(this.out.length);
@@ -66,7 +67,7 @@ const parse: ParseFunction = function (str, line, parser) {
 
     parser.on(types.NOT, function (token) {
         if (this.isLast) {
-            throw new Error('Unexpected logic "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected logic "' + token.match + '"', line, opts.filename);
         }
         this.out.push(token.match);
     });
@@ -77,7 +78,7 @@ const parse: ParseFunction = function (str, line, parser) {
 
     parser.on(types.LOGIC, function (token) {
         if (!this.out.length || this.isLast) {
-            throw new Error('Unexpected logic "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected logic "' + token.match + '"', line, opts.filename);
         }
         this.out.push(token.match);
         this.filterApplyIdx.pop();
@@ -71,12 +71,12 @@ const parse: ParseFunction = function (str, line, _parser, stack, opts, swig) {
             return;
         }
 
-        throw new Error('Unexpected string ' + token.match + ' on line ' + line + '.');
+        utils.throwError('Unexpected string ' + token.match, line, opts.filename);
     });
 
     _parser.on(types.VAR, function (token) {
         if (!tokens || ctx) {
-            throw new Error('Unexpected variable "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected variable "' + token.match + '"', line, opts.filename);
         }
 
         if (token.match === 'as') {
@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 
 const ignore = 'ignore',
     missing = 'missing',
@@ -22,6 +23,11 @@ const ignore = 'ignore',
  * // => I like tacos and horchata.
  *
  * @example
+ * // theme = 'dark';
+ * {% include "./themes/#{theme}.html" %}
+ * // => (The contents of ./themes/dark.html)
+ *
+ * @example
  * {% include "/this/file/does/not/exist" ignore missing %}
  * // => (Nothing! empty string)
  *
@@ -42,7 +48,7 @@ const compile: CompileFunction = function (compiler, args: string[]) {
         'resolveFrom: "' + parentFile + '"' +
         '})(' +
         ((onlyCtx && w) ? w : (!w ? '_ctx' : '_utils.extend({}, _ctx, ' + w + ')')) +
-        ');\n' +
+        ', _flush, _undef.options);\n' +
         (ignore ? '} catch (e) {}\n' : '');
 };
 
@@ -51,7 +57,7 @@ const parse: ParseFunction = function (str, line, parser, stack, opts) {
     parser.on(types.STRING, function (token) {
         if (!file) {
             file = token.match;
-            this.out.push(file);
+            this.out.push(this.parseString(file));
             return;
         }
 
@@ -80,14 +86,14 @@ const parse: ParseFunction = function (str, line, parser, stack, opts) {
 
         if (token.match === missing) {
             if (this.prevToken.match !== ignore) {
-                throw new Error('Unexpected token "' + missing + '" on line ' + line + '.');
+                utils.throwError('Unexpected token "' + missing + '"', line, opts.filename);
             }
             this.out.push(token.match);
             return false;
         }
 
         if (this.prevToken.match === ignore) {
-            throw new Error('Expected "' + missing + '" on line ' + line + ' but found "' + token.match + '".');
+            utils.throwError('Expected "' + missing + '" but found "' + token.match + '"', line, opts.filename);
         }
 
         return true;
@@ -1,6 +1,9 @@
 import autoescape from './autoescape';
 import block from './block';
+import _break from './break';
+import _continue from './continue';
 import _else from './else';
+import empty from './empty';
 import elseif from './esleif';
 import _extends from './extends';
 import filter from './filter';
@@ -59,9 +62,12 @@ export interface Tags {
 export default {
     autoescape: autoescape,
     block: block,
+    "break": _break,
+    "continue": _continue,
     "else": _else,
     elseif: elseif,
     elif: elseif,
+    empty: empty,
     "extends": _extends,
     filter: filter,
     "for": _for,
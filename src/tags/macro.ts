@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 
 /**
  * Create custom, reusable snippets within your templates.
@@ -23,7 +24,7 @@ const compile: CompileFunction = function (compiler, args, content, parents, opt
     let fnName = args.shift();
 
     return '_ctx.' + fnName + ' = function(' + args.join('') + '){\n' +
-        '   var _output = "", \n' +
+        '   var _output = "", _flush = null, \n' +
         '       __ctx = _utils.extend({}, _ctx);\n' +
         '   _utils.each(_ctx, function(v, k) {\n' +
         '       if (["' + args.join('","') + '"].indexOf(k) !== -1) { delete _ctx[k]; }\n' +
@@ -35,12 +36,12 @@ const compile: CompileFunction = function (compiler, args, content, parents, opt
         '_ctx.' + fnName + '.safe = true;\n';
 };
 
-const parse: ParseFunction = function (str, line, parser) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     let name;
 
     parser.on(types.VAR, function (token) {
         if (token.match.indexOf('.') !== -1) {
-            throw new Error('Unexpected dot in macro argument "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected dot in macro argument "' + token.match + '"', line, opts.filename);
         }
         this.out.push(token.match);
     });
@@ -62,9 +63,10 @@ const parse: ParseFunction = function (str, line, parser) {
 
     parser.on(types.PARENCLOSE, function (token) {
         if (this.isLast) {
+            this.state.pop();
             return;
         }
-        throw new Error('Unexpected parenthesis close on line ' + line + '.');
+        utils.throwError('Unexpected parenthesis close', line, opts.filename);
     });
 
     parser.on(types.COMMA, function () {
@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 
 /**
  * Inject the content from the parent template's block of the same name into the current block.
@@ -43,7 +44,7 @@ const compile: CompileFunction = function (compiler, args, content, parents, opt
 
 const parse: ParseFunction = function (sre, line, parser, stack, opts) {
     parser.on('*', function (token) {
-        throw new Error('Unexpected argument "' + token.match + '" on line ' + line + '.');
+        utils.throwError('Unexpected argument "' + token.match + '"', line, opts.filename);
     })
 
     parser.on('end', function (token) {
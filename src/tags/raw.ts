@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 import { LexerToken } from '../lexer';
 // Magic tag, hardcoded into parser
 
@@ -7,9 +8,9 @@ const compile: CompileFunction = function (compiler, args, content, parents, opt
     return compiler(content, parents, options, blockName);
 }
 
-const parse: ParseFunction = function (str, line, parser) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     parser.on('*', function (token: LexerToken) {
-        throw new Error(`Unexpected token "${token.match}" in raw tag on line ${line}.`);
+        utils.throwError(`Unexpected token "${token.match}" in raw tag`, line, opts.filename);
     })
     return true;
 }
@@ -1,5 +1,6 @@
 import { CompileFunction, ParseFunction } from './index';
 import { TYPES as types } from '../lexer';
+import utils from '../utils';
 
 /**
  * Set a variable for re-use in the current context. This will over-write any value already set to the context for the given <var>varname</var>.
@@ -30,7 +31,13 @@ import { TYPES as types } from '../lexer';
  * {{ foods.chili }}
  * // => guatamalan insanity pepper
  *
- * @param {literal} varname   The variable name to assign the value to.
+ * @example
+ * // result = ['taco', 'burrito', 'nachos']
+ * {% set first, second = result %}
+ * {{ first }} and {{ second }}
+ * // => taco and burrito
+ *
+ * @param {literal} varname   The variable name to assign the value to. Names separated by commas are set to the items of the value, in order.
  * @param {literal} assignement   Any valid JavaScript assignement. <code data-language="js">=, +=, *=, /=, -=</code>
  * @param {*}   value     Valid variable output.
  */
@@ -39,9 +46,10 @@ const compile: CompileFunction = function (compiler, args) {
     return args.join(' ') + ';\n';
 }
 
-const parse: ParseFunction = function (str, line, parser) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     let nameSet = '',
         propertyName;
+    const names: string[] = [];
 
     parser.on(types.VAR, function (token) {
         if (propertyName) {
@@ -86,6 +94,17 @@ const parse: ParseFunction = function (str, line, parser) {
         return true;
     });
 
+    parser.on(types.COMMA, function (token) {
+        if (this.out.length || propertyName) {
+            return true;
+        }
+        if (!nameSet) {
+            utils.throwError('Unexpected comma', line, opts.filename);
+        }
+        names.push(nameSet);
+        nameSet = '';
+    });
+
     parser.on(types.DOTKEY, function (token) {
         if (!propertyName && !nameSet) {
             return true;
@@ -96,7 +115,19 @@ const parse: ParseFunction = function (str, line, parser) {
 
     parser.on(types.ASSIGNMENT, function (token) {
         if (this.out.length || !nameSet) {
-            throw new Error('Unexpected assignment "' + token.match + '" on line ' + line + '.');
+            utils.throwError('Unexpected assignment "' + token.match + '"', line, opts.filename);
+        }
+
+        if (names.length) {
+            if (token.match !== '=') {
+                utils.throwError('Unexpected assignment "' + token.match + '"', line, opts.filename);
+            }
+            names.push(nameSet);
+            // Each name is set to the item of the value in its place
+            this.out.push('(function (__v) {\n' + utils.map(names, (name) => '_ctx.' + name + ' = __v[' + JSON.stringify(name) + '];\n').join('') +
+                '})(_utils.unpack(' + JSON.stringify(names) + ', ');
+            this.filterApplyIdx.push(this.out.length);
+            return;
         }
 
         this.out.push(
@@ -107,6 +138,12 @@ const parse: ParseFunction = function (str, line, parser) {
         this.filterApplyIdx.push(this.out.length);
     });
 
+    parser.on('end', function () {
+        if (names.length) {
+            this.out.push('))');
+        }
+    });
+
     return true;
 }
 
@@ -17,17 +17,18 @@ import utils from '../utils';
  *
  */
 const compile: CompileFunction = function (compiler, args, content, parents, options, blockName) {
-    let out = compiler(content, parents, options, blockName);
-    out += '_output = _output.replace(/^\\s+/, "")\n' +
+    return '_output += (function () {\n' +
+        '  var _output = "", _flush = null;\n' +
+        compiler(content, parents, options, blockName) +
+        '  return _output.replace(/^\\s+/, "")\n' +
         '   .replace(/>\\s+</g, "><")\n' +
-        '   .replace(/\\s+$/, "");\n';
-
-    return out;
+        '   .replace(/\\s+$/, "");\n' +
+        '})();\n';
 }
 
-const parse: ParseFunction = function (str, line, parser) {
+const parse: ParseFunction = function (str, line, parser, stack, opts) {
     parser.on('*', function (token) {
-        throw new Error('Unexpected token "' + token.match + '" on line ' + line + '.');
+        utils.throwError('Unexpected token "' + token.match + '"', line, opts.filename);
     });
 
 
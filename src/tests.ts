@@ -0,0 +1,218 @@
+import utils from './utils';
+
+/**
+ * Tests are functions that check their first input argument and return true or false. They are used with the `is` keyword.
+ * Tests receive undefined and null values as they are, so they can tell whether a variable is set.
+ *
+ * @typedef {function} Test
+ *
+ * @example
+ * // This test checks that the input is a weekend day
+ * swig.setTest('weekend', function (input) {
+ *   var day = new Date(input).getDay();
+ *   return day === 0 || day === 6;
+ * });
+ * // => {% if today is weekend %}Sleep in!{% endif %}
+ *
+ * @param {*} input Input argument, automatically sent from Swig's built-in parser.
+ * @param {...*} [args] All other arguments are defined by the Test author.
+ * @return {boolean}
+ */
+
+export interface Test extends Function {
+    (input: any, ...arg): boolean;
+}
+
+export interface Tests {
+    [key: string]: Test;
+}
+
+/**
+ * Check that a value is defined. A null value is defined.
+ *
+ * @example
+ * {% if user is defined %}Hi {{ user.name }}{% endif %}
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const defined = function (input: any): boolean {
+    return input !== undefined;
+}
+
+/**
+ * Check that a value is not defined.
+ *
+ * @example
+ * {% if user is undefined %}Please log in{% endif %}
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const _undefined = function (input: any): boolean {
+    return input === undefined;
+}
+
+/**
+ * Check that a value is null.
+ *
+ * @example
+ * // middle = null;
+ * {{ middle is none }}
+ * // => true
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const none = function (input: any): boolean {
+    return input === null;
+}
+
+/**
+ * Check that a value is a number.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const number = function (input: any): boolean {
+    return typeof input === 'number';
+}
+
+/**
+ * Check that a value is a string.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const string = function (input: any): boolean {
+    return typeof input === 'string';
+}
+
+/**
+ * Check that a number is odd.
+ *
+ * @example
+ * {% for row in rows %}<tr class="{{ 'odd' if loop.index is odd else 'even' }}">{% endfor %}
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const odd = function (input: any): boolean {
+    return Math.abs(input % 2) === 1;
+}
+
+/**
+ * Check that a number is even.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const even = function (input: any): boolean {
+    return input % 2 === 0;
+}
+
+/**
+ * Check that a number is divisible by another number.
+ *
+ * @example
+ * {% if loop.index is divisibleby(3) %}</div><div class="row">{% endif %}
+ *
+ * @param  {*}  input
+ * @param  {number} num Number to divide by.
+ * @return {boolean}
+ */
+const divisibleby = function (input: any, num: number): boolean {
+    return input % num === 0;
+}
+
+/**
+ * Check that a value can be looped over with the `for` tag: an array, object or string.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const iterable = function (input: any): boolean {
+    return typeof input === 'string' || (input !== null && typeof input === 'object');
+}
+
+/**
+ * Check that a value is an array or a string.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const sequence = function (input: any): boolean {
+    return typeof input === 'string' || utils.isArray(input);
+}
+
+/**
+ * Check that a value is an object that is not an array.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const mapping = function (input: any): boolean {
+    return input !== null && typeof input === 'object' && !utils.isArray(input);
+}
+
+/**
+ * Check that a value is a function.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const callable = function (input: any): boolean {
+    return typeof input === 'function';
+}
+
+/**
+ * Check that a value is the same as another value.
+ *
+ * @example
+ * {% if selected is sameas(item) %}selected{% endif %}
+ *
+ * @param  {*}  input
+ * @param  {*}  other Value to compare with.
+ * @return {boolean}
+ */
+const sameas = function (input: any, other: any): boolean {
+    return input === other;
+}
+
+/**
+ * Check that a string is all lowercase.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const lower = function (input: any): boolean {
+    return typeof input === 'string' && input === input.toLowerCase();
+}
+
+/**
+ * Check that a string is all uppercase.
+ *
+ * @param  {*}  input
+ * @return {boolean}
+ */
+const upper = function (input: any): boolean {
+    return typeof input === 'string' && input === input.toUpperCase();
+}
+
+export default {
+    callable,
+    defined,
+    divisibleby,
+    even,
+    iterable,
+    lower,
+    mapping,
+    none,
+    number,
+    odd,
+    sameas,
+    sequence,
+    string,
+    "undefined": _undefined,
+    upper
+}
@@ -1,3 +1,5 @@
+import { TemplateError, TemplatePhase } from './error';
+
 const isArray = Array.isArray;
 const extend = Object.assign;
 const keys = Object.keys;
@@ -26,25 +28,277 @@ const map = function <T, U>(obj: T[], fn: (v: T, i?: number, o?: T[]) => U, cont
 
 
 /**
- * Throw an error with possiable line number and source file.
+ * Throw a TemplateError with possiable line number and source file.
  * @param message Error message
  * @param line Line number in template.
  * @param file Template file the error occured in.
+ * @param [phase='parse'] Step of the template life cycle the error happened in.
+ * @param [hint] Extra explanation added after the location.
  * @throws No seriously, the point is to throw an error.
  */
-const throwError = function (message: string, line?: string | number, file?: string): Error {
-    if (line) {
-        message += ' on line ' + line;
+const throwError = function (message: string, line?: string | number, file?: string, phase?: TemplatePhase, hint?: string): Error {
+    throw new TemplateError(message, {
+        line: line ? Number(line) : undefined,
+        filename: file,
+        phase: phase,
+        hint: hint
+    });
+}
+
+/**
+ * Rethrow an error raised by a compiled template, with the template location that was rendering.
+ * Errors that already know their template, like those of included templates, only get the location added to their template stack.
+ * @param error Error thrown while rendering.
+ * @param line Line number in template that was rendering.
+ * @param file Template file that was rendering.
+ * @param [column] Column of the tag or variable that was rendering.
+ * @param [extended] Files of the template and the templates it extends, in order.
+ * @throws The TemplateError, with the original error as `cause`.
+ */
+const rethrow = function (error: any, line?: number, file?: string, column?: number, extended: string[] = []): Error {
+    let at = extended.indexOf(file);
+
+    if (!(error instanceof TemplateError)) {
+        error = new TemplateError(String(error && error.message || error), {
+            line: line || undefined,
+            column: column || undefined,
+            filename: file,
+            phase: 'render',
+            cause: error
+        });
+    } else {
+        if (!error.filename) {
+            error.locate({ line: line || undefined, column: column || undefined, filename: file });
+        }
+        error.within(file);
+    }
+
+    // A layout renders for the templates that extend it
+    each(extended.slice(0, (at === -1) ? 1 : at).reverse(), (name: string) => error.within(name));
+
+    throw error;
+}
+
+
+/**
+ * Create an array of numbers from `start` up to, but not including, `stop`.
+ * With only one argument, the numbers start at 0 and stop before the argument.
+ * @param start First number, or the stop if it is the only argument.
+ * @param [stop] Number to stop before.
+ * @param [step=1] Difference between the numbers, count down with a negative step.
+ * @return Array of numbers.
+ */
+const range = function (start: number, stop?: number, step?: number): number[] {
+    let out = [], i;
+
+    if (stop === undefined) {
+        stop = start;
+        start = 0;
     }
+    start = Number(start);
+    stop = Number(stop);
+    step = Number(step) || 1;
 
-    if (file) {
-        message += ' in file ' + file;
+    for (i = start; (step > 0) ? i < stop : i > stop; i += step) {
+        out.push(i);
     }
 
-    throw new Error(message + '.');
-    ;
+    return out;
 }
 
+/**
+ * Take part of an array or a string, with the indexes of a Python slice.
+ * Negative indexes count from the end, and a negative step walks backwards.
+ * @param input Array or string to slice.
+ * @param [start] First index, the start of the input by default.
+ * @param [stop] Index to stop before, the end of the input by default.
+ * @param [step=1] Difference between the indexes.
+ * @return Array, or string for a string input.
+ */
+const slice = function (input: any, start?: number, stop?: number, step?: number): any {
+    const items = (typeof input === 'string') ? Array.from(input) : (input === undefined || input === null) ? [] : Array.from(input),
+        length = items.length,
+        out = [];
+    let i;
+
+    step = (step === undefined || step === null) ? 1 : Number(step);
+    if (!step) {
+        throwError('Slice step cannot be zero');
+    }
+
+    function index(value: number, fallback: number): number {
+        if (value === undefined || value === null) {
+            return fallback;
+        }
+        value = Number(value);
+        value = (value < 0) ? value + length : value;
+        return Math.min(Math.max(value, (step > 0) ? 0 : -1), (step > 0) ? length : length - 1);
+    }
+
+    start = index(start, (step > 0) ? 0 : length - 1);
+    stop = index(stop, (step > 0) ? length : -1);
+    for (i = start; (step > 0) ? i < stop : i > stop; i += step) {
+        out.push(items[i]);
+    }
+
+    return (typeof input === 'string' || input === undefined || input === null) ? out.join('') : out;
+}
+
+/**
+ * Join values as strings, undefined and null are joined as empty strings.
+ * @param values Values to join.
+ * @return Joined string.
+ */
+const concat = function (...values: any[]): string {
+    return map(values, (value) => (value === undefined || value === null) ? '' : String(value)).join('');
+}
+
+/**
+ * Use a fallback for a value that is undefined or null, as with `value ?? fallback`.
+ * @param value Value to use when it is set.
+ * @param fallback Value to use instead.
+ * @return The value or the fallback.
+ */
+const coalesce = function (value: any, fallback: any): any {
+    return (value === undefined || value === null) ? fallback : value;
+}
+/**
+ * Keep the items of an array, string or object that pass a check, as for the `if` of a for loop.
+ * @param input Array, string or object.
+ * @param fn Check of an item and its key or index.
+ * @return Array of the items that pass, or an object of them for an object.
+ */
+const select = function (input: any, fn: (value: any, key?: number | string) => any): any {
+    const list = isArray(input) || typeof input === 'string',
+        out = list ? [] : {};
+
+    each(list ? Array.from(input) : input, (value, key) => {
+        if (!fn(value, key)) {
+            return;
+        }
+        if (list) {
+            (out as any[]).push(value);
+        } else {
+            out[key] = value;
+        }
+    });
+
+    return out;
+}
+
+/**
+ * Read values by their place in a pattern of names, as in `{% for key, (a, b) in pairs %}`.
+ * @param pattern Names, or patterns of names to unpack further, in the order of the items.
+ * @param value Array or string to read the items from.
+ * @return The values by name, undefined for names that have no item.
+ */
+const unpack = function (pattern: any[], value: any): { [name: string]: any } {
+    const out = {};
+
+    each(pattern, (name, i: number) => {
+        const item = (value === undefined || value === null) ? undefined : value[i];
+
+        if (isArray(name)) {
+            extend(out, unpack(name, item));
+        } else {
+            out[name] = item;
+        }
+    });
+
+    return out;
+}
+
+/**
+ * The `loop` variable of a for loop. The compiled loop moves the counters along, the rest is read from them.
+ */
+export class Loop {
+    /** The current iteration of the loop (1-indexed) */
+    index = 1;
+    /** The current iteration of the loop (0-indexed) */
+    index0 = 0;
+    /** The number of iterations from the end of the loop (1-indexed) */
+    revindex: number;
+    /** The number of iterations from the end of the loop (0-indexed) */
+    revindex0: number;
+    /** The number of items to loop over */
+    length: number;
+    /** True if the current item is the first one */
+    first = false;
+    /** True if the current item is the last one */
+    last = false;
+    /** Key of the current item of an object, or the index of the current item of an array */
+    key: string | number;
+    /** Nesting level of the loop (1-indexed) */
+    depth: number;
+    /** Nesting level of the loop (0-indexed) */
+    depth0: number;
+    /** Loop around this one, if any */
+    parent: Loop;
+    private items: any;
+    private seen: any[];
+
+    /**
+     * @param input   Array, string or object to loop over.
+     * @param [outer] The loop variable before this loop, the parent loop when it is one.
+     */
+    constructor(input: any, outer?: any) {
+        this.items = (isArray(input) || typeof input === 'string') ? input : map(keys(input), (key) => input[key]);
+        this.length = this.items.length;
+        this.revindex = this.length;
+        this.revindex0 = this.length - 1;
+        this.parent = (outer instanceof Loop) ? outer : undefined;
+        this.depth = this.parent ? this.parent.depth + 1 : 1;
+        this.depth0 = this.depth - 1;
+    }
+
+    /**
+     * Make a loop variable that can be called with other items, to render them with the body of the loop, as in recursive loops.
+     * @param loop Loop variable.
+     * @param render Renders the body of the loop for other items.
+     * @return The loop variable, as a function.
+     */
+    static recursive(loop: Loop, render: (items: any) => string): Loop {
+        const fn = function (items: any): string {
+            return render(items);
+        };
+
+        // The length of a function is read-only until it is redefined
+        Object.defineProperty(fn, 'length', { value: loop.length, writable: true });
+        Object.setPrototypeOf(fn, Loop.prototype);
+        return extend(fn, loop);
+    }
+
+    /** The item before the current one, undefined for the first item */
+    get previtem(): any {
+        return (this.index0 > 0) ? this.items[this.index0 - 1] : undefined;
+    }
+
+    /** The item after the current one, undefined for the last item */
+    get nextitem(): any {
+        return (this.index0 < this.length - 1) ? this.items[this.index0 + 1] : undefined;
+    }
+
+    /**
+     * Pick one of the values in turn, by the current iteration.
+     * @param values Values to cycle through.
+     * @return The value for the current iteration.
+     */
+    cycle(...values: any[]): any {
+        return values.length ? values[this.index0 % values.length] : undefined;
+    }
+
+    /**
+     * Check whether the values differ from the values of the last call, as for group headers. The first call is a change.
+     * @param values Values to compare.
+     * @return True if any value changed.
+     */
+    changed(...values: any[]): boolean {
+        const changed = !this.seen || this.seen.length !== values.length || values.some((value, i) => value !== this.seen[i]);
+
+        this.seen = values;
+        return changed;
+    }
+}
 
 export default {
     isArray,
@@ -52,5 +306,13 @@ export default {
     map,
     keys,
     extend,
-    throwError
+    throwError,
+    rethrow,
+    range,
+    slice,
+    concat,
+    coalesce,
+    select,
+    unpack,
+    Loop
 }
\ No newline at end of file
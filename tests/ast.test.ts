@@ -0,0 +1,191 @@
+import swig, { Swig, TemplateError, OutputNode, TagNode, BlockNode, TextNode, Expression } from '../lib/swig';
+import should = require('should');
+
+/**
+ * Drop the source ranges, to compare the shape of trees.
+ */
+function shape(node: any) {
+    return JSON.parse(JSON.stringify(node, (key, value) => (key === 'range') ? undefined : value));
+}
+
+function expression(source: string): Expression {
+    return (swig.parseToAst('{{ ' + source + ' }}').body[0] as OutputNode).expression;
+}
+
+describe('AST', function () {
+    const s = new Swig({
+        loader: swig.loaders.memory({
+            '/layout.html': '<h1>{% block title %}{% endblock %}</h1>'
+        })
+    });
+
+    it('has text, output, tag, block and comment nodes', function () {
+        const tree = s.parseToAst('Hi {{ name }}{# note #}{% if a %}!{% endif %}{% block b %}{% endblock %}');
+
+        should(tree.type).be.eql('Template');
+        should(tree.body.map((node) => node.type)).be.eql(['Text', 'Output', 'Comment', 'Tag', 'Block']);
+        should(shape(tree.body[2])).be.eql({ type: 'Comment', value: ' note ' });
+        should((tree.body[3] as TagNode).name).be.eql('if');
+        should(shape((tree.body[3] as TagNode).body)).be.eql([{ type: 'Text', value: '!' }]);
+        should((tree.body[4] as BlockNode).name).be.eql('b');
+    });
+
+    it('is JSON serializable', function () {
+        const tree = s.parseToAst('{% for x in y|reverse %}{{ loop.index }}: {{ x.a[1:] }}{% endfor %}', { filename: 'page.html' });
+
+        should(JSON.parse(JSON.stringify(tree))).be.eql(tree);
+        should(tree.filename).be.eql('page.html');
+    });
+
+    it('has source ranges on every node', function () {
+        const tree = s.parseToAst('a\n  {{ b.c|d }}\n{% if e %}{% endif %}'),
+            output = tree.body[1] as OutputNode,
+            tag = tree.body[3] as TagNode;
+
+        should(output.range).be.eql({ start: { offset: 4, line: 2, column: 3 }, end: { offset: 15, line: 2, column: 14 } });
+        should(output.expression.range.start).be.eql({ offset: 7, line: 2, column: 6 });
+        should(output.expression.range.end).be.eql({ offset: 12, line: 2, column: 11 });
+        should(tag.range.start.offset).be.eql(16);
+        should(tag.range.end.offset).be.eql(37);
+        should(tag.end.range.start).be.eql({ offset: 26, line: 3, column: 11 });
+        should(tag.args[0].range.start.column).be.eql(7);
+    });
+
+    it('reads expressions', function () {
+        should(shape(expression('a.b[c]'))).be.eql({
+            type: 'Member',
+            object: {
+                type: 'Member',
+                object: { type: 'Variable', name: 'a' },
+                property: { type: 'Literal', value: 'b', raw: 'b' },
+                computed: false
+            },
+            property: { type: 'Variable', name: 'c' },
+            computed: true
+        });
+        should(shape(expression('a|default("b")'))).be.eql({
+            type: 'Filter',
+            name: 'default',
+            input: { type: 'Variable', name: 'a' },
+            arguments: [{ type: 'Literal', value: 'b', raw: '"b"' }]
+        });
+        should(shape(expression('a is not divisibleby(3)'))).be.match({ type: 'Test', name: 'divisibleby', negated: true });
+        should(shape(expression('a + b * c'))).be.match({ type: 'Binary', operator: '+', right: { type: 'Binary', operator: '*' } });
+        should(shape(expression('(a + b) * c'))).be.match({ type: 'Binary', operator: '*', left: { type: 'Binary', operator: '+' } });
+        should(shape(expression('not a and b'))).be.match({ type: 'Binary', operator: 'and', left: { type: 'Unary', operator: 'not' } });
+        should(shape(expression('"x" if a else "y"'))).be.match({ type: 'Conditional', test: { name: 'a' }, consequent: { value: 'x' }, alternate: { value: 'y' } });
+        should(shape(expression('a ? 1 : 2'))).be.match({ type: 'Conditional', test: { name: 'a' }, consequent: { value: 1 } });
+        should(shape(expression('items[1:-1]'))).be.match({ type: 'Slice', start: { value: 1 }, stop: { value: -1 }, step: null });
+        should(shape(expression('1..3 ~ "!"'))).be.match({ type: 'Binary', operator: '~', left: { type: 'Binary', operator: '..' } });
+        should(shape(expression('[1, {a: "b",},]'))).be.match({ type: 'Array', elements: [{ value: 1 }, { type: 'Object', properties: [{ key: { raw: 'a' }, value: { value: 'b' } }] }] });
+        should(shape(expression('foo(1).bar()'))).be.match({ type: 'Call', callee: { type: 'Member', object: { type: 'Call', callee: { name: 'foo' } } } });
+        should(shape(expression('"Hi #{name}!"'))).be.match({ type: 'Interpolation', parts: [{ value: 'Hi ' }, { name: 'name' }, { value: '!' }] });
+        should(shape(expression('"#{ {a: "}"}.a }!"'))).be.match({ type: 'Interpolation', parts: [{ type: 'Member', object: { type: 'Object' } }, { value: '!' }] });
+        should(shape(expression('a?.b.c'))).be.match({ type: 'Member', object: { type: 'Member', optional: true, property: { value: 'b' } }, property: { value: 'c' } });
+        should(shape(expression('a ?? b ?? c == d'))).be.match({ type: 'Binary', operator: '==', left: { operator: '??', right: { operator: '??' } } });
+    });
+
+    it('reads the arguments of tags in order', function () {
+        const tag = s.parseToAst('{% for key, value in obj %}{% endfor %}').body[0] as TagNode;
+
+        should(shape(tag.args)).be.eql([
+            { type: 'Variable', name: 'key' },
+            { type: 'Symbol', value: ',' },
+            { type: 'Binary', operator: 'in', left: { type: 'Variable', name: 'value' }, right: { type: 'Variable', name: 'obj' } }
+        ]);
+        should(shape((s.parseToAst('{% set a = 1 %}').body[0] as TagNode).args)).be.match([{ type: 'Assignment', operator: '=' }]);
+        should(shape((s.parseToAst('{% for k, (a, [b, c]) in obj %}{% endfor %}').body[0] as TagNode).args[2])).be.match({
+            type: 'Binary',
+            operator: 'in',
+            left: { type: 'Tuple', elements: [{ name: 'a' }, { type: 'Array', elements: [{ name: 'b' }, { name: 'c' }] }] }
+        });
+    });
+
+    it('keeps the whitespace control', function () {
+        const tree = s.parseToAst('{%- if a -%} {{- b }}{% endif -%}'),
+            tag = tree.body[0] as TagNode;
+
+        should(tag.stripBefore).be.true();
+        should(tag.stripAfter).be.true();
+        should((tag.body[1] as OutputNode).stripBefore).be.true();
+        should((tag.body[1] as OutputNode).stripAfter).be.false();
+        should(tag.end.stripAfter).be.true();
+        should(s.parseToAst('{%+ if a +%}{% endif %}').body[0]).match({ keepBefore: true, keepAfter: true, stripBefore: false });
+        should(s.printAst(s.parseToAst('{%+ if a %}{% endif +%}'))).be.eql('{%+ if a %}{% endif +%}');
+    });
+
+    it('reads the contents of raw tags as text', function () {
+        const tag = s.parseToAst('{% raw %}{{ a }}{# b #}{% if %}{% endraw %}').body[0] as TagNode;
+
+        should(shape(tag.body)).be.eql([{ type: 'Text', value: '{{ a }}{# b #}{% if %}' }]);
+    });
+
+    it('can be printed back to source', function () {
+        const source = '{% for k, v in obj|default({}) -%}\n  {{ loop.index }}: {{ v.a[1:3]|join(", ") }}{% endfor %}' +
+            '{% if a and not b or c is not odd %}x{% else if d %}y{% endif %}{# c #}{% raw %}{{ a }}{% endraw %}' +
+            '{% for k, (a, b) in obj %}{% endfor %}{% set a, b = c %}';
+
+        should(s.printAst(s.parseToAst(source))).be.eql(source);
+        should(s.printAst(expression('(a + b) * c - d["e"]'))).be.eql('(a + b) * c - d["e"]');
+        should(s.printAst(expression('a ? b : c'))).be.eql('b if a else c');
+        should(s.printAst(expression('u?.v ?? (w ?? x ?? "y")'))).be.eql('u?.v ?? w ?? x ?? "y"');
+        should(s.printAst(expression('(a ?? b) ?? c'))).be.eql('(a ?? b) ?? c');
+    });
+
+    it('can be compiled after it is changed', function () {
+        const tree = s.parseToAst('Hi {{ name }}, {% block title %}{% endblock %}');
+
+        (tree.body[1] as OutputNode).expression = { type: 'Variable', name: 'nickname', range: null };
+        should(s.compileAst(tree)({ nickname: 'Mo' })).be.eql('Hi Mo, ');
+        should(swig.compileAst(swig.parseToAst('{{ a|upper }}'))({ a: 'b' })).be.eql('B');
+    });
+
+    it('reports errors at the lines and columns of the source it was read from', function () {
+        const tree = s.parseToAst('a\n{% if a %}\n  {{\n    b.c(1)\n  }}\n{% endif %}'),
+            changed = s.parseToAst('a\nb\n{% if a %}{% endif %}\n  {{ a|nope }}');
+        let err: TemplateError;
+
+        should.throws(function () {
+            s.compileAst(tree)({ a: 1, b: { c: function () { throw new Error('boom'); } } });
+        }, /boom on line 3\./);
+
+        (changed.body[0] as TextNode).value = 'a';
+        try {
+            s.compileAst(changed);
+        } catch (e) {
+            err = e;
+        }
+        should(err.message).be.eql('Invalid filter "nope" on line 4.');
+        should(err.column).be.eql(7);
+    });
+
+    it('can be compiled with the templates it extends', function () {
+        const tree = s.parseToAst('{% extends "layout.html" %}{% block title %}Tacos{% endblock %}', { filename: '/page.html' });
+
+        should(s.compileAst(tree)()).be.eql('<h1>Tacos</h1>');
+    });
+
+    it('throws on bad syntax with the location', function () {
+        let err: TemplateError;
+
+        try {
+            s.parseToAst('a\n{{ b c }}', { filename: 'page.html' });
+        } catch (e) {
+            err = e;
+        }
+        should(err).be.instanceOf(TemplateError);
+        should(err.message).be.eql('Unexpected "c" on line 2 in file page.html.');
+        should(err.column).be.eql(6);
+        should(err.phase).be.eql('parse');
+
+        should.throws(function () {
+            s.parseToAst('{% tacos %}');
+        }, /Unexpected tag "tacos" on line 1\./);
+        should.throws(function () {
+            s.parseToAst('{% if a %}{% endfor %}');
+        }, /Unexpected end of tag "for" on line 1\./);
+        should.throws(function () {
+            s.parseToAst('{{ a[1:2:3:4] }}');
+        }, /Unexpected ":" on line 1\./);
+    });
+});
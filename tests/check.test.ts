@@ -0,0 +1,94 @@
+import swig, { Swig, Diagnostic } from '../lib/swig';
+import should = require('should');
+
+/**
+ * Only keep the severity, message and position of diagnostics, to compare them.
+ */
+function brief(diagnostics: Diagnostic[]) {
+    return diagnostics.map((d) => [d.severity, d.message, d.line, d.column]);
+}
+
+describe('swig.check', function () {
+    const s = new Swig({
+        loader: swig.loaders.memory({
+            '/page.html': '{% extends "layout.html" %}\n{% block body %}{{ a|nope }}{% endblock %}'
+        })
+    });
+
+    it('finds nothing in a good template', function () {
+        should(s.check('Hi {{ name|upper }}{% if a %}!{% endif %}')).be.eql([]);
+    });
+
+    it('lists every problem instead of the first one', function () {
+        should(brief(s.check('{% tacos %}\n{{ a|nope }} {{ b is nope }}\n{{ c @ d }}'))).be.eql([
+            ['error', 'Unexpected tag "tacos"', 1, 1],
+            ['error', 'Invalid filter "nope"', 2, 5],
+            ['error', 'Invalid test "nope"', 2, 19],
+            ['error', 'Unexpected token "@ d"', 3, 6]
+        ]);
+    });
+
+    it('reports unexpected and missing end tags', function () {
+        should(brief(s.check('{% endif %}{% for x in y %}\n{% if a %}'))).be.eql([
+            ['error', 'Unexpected end of tag "if"', 1, 1],
+            ['error', 'Missing end tag for "for"', 1, 12],
+            ['error', 'Missing end tag for "if"', 2, 1]
+        ]);
+    });
+
+    it('recovers at tag boundaries', function () {
+        should(brief(s.check('{% if a|nope %}x{% endif %}{% tacos %}y{% endtacos %}{{ b|nope }}'))).be.eql([
+            ['error', 'Invalid filter "nope"', 1, 8],
+            ['error', 'Unexpected tag "tacos"', 1, 28],
+            ['error', 'Invalid filter "nope"', 1, 58]
+        ]);
+    });
+
+    it('has the phase and filename of each problem', function () {
+        should(s.check('{{ a @ b }}{{ c|nope }}', { filename: 'page.html' })).match([
+            { phase: 'lex', filename: 'page.html' },
+            { phase: 'parse', filename: 'page.html' }
+        ]);
+    });
+
+    it('can check files', function () {
+        should(brief(s.checkFile('/page.html'))).be.eql([['error', 'Invalid filter "nope"', 2, 21]]);
+        should(s.checkFile('/page.html')[0].filename).be.eql('/page.html');
+    });
+
+    it('lists tags and variables that do not compile', function () {
+        should(brief(s.check('{% set foo = (4 + 4 %}'))).be.eql([['error', 'Unable to parse "set foo = (4 + 4"', 1, 1]]);
+        should(brief(s.check('a\n{{ a b }}'))).be.eql([['error', 'Unexpected "b"', 2, 6]]);
+        should(s.check('{% for a in b %}{% if a %}{% continue %}{% else %}{{ a }}{% endif %}{% empty %}{% endfor %}')).be.eql([]);
+        should.throws(function () {
+            s.render('a\n{{ a b }}');
+        }, /Unexpected "b" on line 2\./);
+    });
+
+    it('lists code that is not valid JavaScript', function () {
+        const t = new Swig();
+
+        t.setTag('broken', () => true, () => '_output += ;', false);
+        should(t.check('a\n{% broken %}')).match([{ severity: 'error', message: /^SyntaxError: /, line: 2, column: 1, phase: 'compile' }]);
+    });
+
+    it('lists templates that can not be loaded', function () {
+        should(brief(s.check('{% import "nope.html" as x %}\n{{ a|nope }}', { filename: '/x.html' }))).be.eql([
+            ['error', 'Unable to find template "/nope.html".', 1, 11],
+            ['error', 'Invalid filter "nope"', 2, 5]
+        ]);
+        should(brief(swig.check('{% import "nope.html" as x %}', { filename: '/x.html' }))).match([
+            ['error', /ENOENT/, 1, 1]
+        ]);
+    });
+
+    it('is on the module', function () {
+        should(swig.check('{{ a|nope }}')).have.length(1);
+    });
+
+    it('still throws for the other methods', function () {
+        should.throws(function () {
+            s.render('{% tacos %}{{ a|nope }}');
+        }, /Unexpected tag "tacos" on line 1\./);
+    });
+});
@@ -0,0 +1,131 @@
+import swig, { Swig, TemplateError } from '../lib/swig';
+import should = require('should');
+
+function catchError(fn: () => any): TemplateError {
+    try {
+        fn();
+    } catch (err) {
+        return err;
+    }
+    throw new Error('Expected an error to be thrown.');
+}
+
+describe('TemplateError', function () {
+    const s = new Swig({
+        loader: swig.loaders.memory({
+            '/page.html': '{% extends "layout.html" %}{% block body %}hi{% endblock %}',
+            '/layout.html': 'a\n{% import "macros.html" as m %}\n{% block body %}{% endblock %}',
+            '/macros.html': '{% macro foo() %}\n  {{ a|nope }}\n{% endmacro %}',
+            '/broken.html': '{% extends "missing.html" %}',
+            '/child.html': '{% extends "base.html" %}\n{% block body %}\n{{ boom() }}{% endblock %}',
+            '/base.html': '{% block body %}{% endblock %}\n{{ boom() }}',
+            '/list.html': 'a\n{% include "item.html" %}',
+            '/item.html': '\n\n{{ boom() }}'
+        })
+    });
+
+    it('is thrown for parse errors with location details', function () {
+        const err = catchError(() => s.render('a\nb {{ c|nope }}', { filename: 'page.html' }));
+
+        should(err).be.instanceOf(TemplateError);
+        should(err).be.instanceOf(Error);
+        should(err.name).be.eql('TemplateError');
+        should(err.message).be.eql('Invalid filter "nope" on line 2 in file page.html.');
+        should(err.reason).be.eql('Invalid filter "nope"');
+        should(err.filename).be.eql('page.html');
+        should(err.line).be.eql(2);
+        should(err.column).be.eql(7);
+        should(err.phase).be.eql('parse');
+        should(err.templateStack).be.eql(['page.html']);
+    });
+
+    it('has a code frame of the lines around the error', function () {
+        const err = catchError(() => s.render('1\n2\n3\n{{ c|nope }}\n5\n6\n7'));
+
+        should(err.codeFrame).be.eql([
+            '  2 | 2',
+            '  3 | 3',
+            '> 4 | {{ c|nope }}',
+            '    |     ^',
+            '  5 | 5',
+            '  6 | 6'
+        ].join('\n'));
+    });
+
+    it('points at the token that failed', function () {
+        should(catchError(() => s.render('{%- if a|nope %}{% endif %}')).column).be.eql(9);
+        should(catchError(() => s.render('{{\n  a,\n  b }}')).line).be.eql(2);
+        should(catchError(() => s.render('{{\n  a,\n  b }}')).column).be.eql(4);
+        should(catchError(() => s.render('{{ "Hi #{ a|nope }" }}')).column).be.eql(12);
+    });
+
+    it('reports the phase', function () {
+        should(catchError(() => s.render('{{ a @ b }}')).phase).be.eql('lex');
+        should(catchError(() => s.render('{{ a }}', { strictVariables: true })).phase).be.eql('render');
+        should(catchError(() => s.render('{% extends "foo" %}')).phase).be.eql('compile');
+    });
+
+    it('lists the templates that extend and import the failing one', function () {
+        const err = catchError(() => s.renderFile('/page.html'));
+
+        should(err.filename).be.eql('/macros.html');
+        should(err.line).be.eql(2);
+        should(err.templateStack).be.eql(['/page.html', '/layout.html', '/macros.html']);
+    });
+
+    describe('while rendering', function () {
+        const boom = function () { throw new Error('boom'); };
+
+        it('wraps errors with the template location', function () {
+            const err = catchError(() => s.render('a\n\n{{ b }} {{ c() }}', { filename: 'page.html', locals: { c: boom } }));
+
+            should(err).be.instanceOf(TemplateError);
+            should(err.message).be.eql('boom on line 3 in file page.html.');
+            should(err.phase).be.eql('render');
+            should(err.line).be.eql(3);
+            should(err.column).be.eql(9);
+            should(err.codeFrame).be.eql([
+                '  1 | a',
+                '  2 | ',
+                '> 3 | {{ b }} {{ c() }}',
+                '    |         ^'
+            ].join('\n'));
+            should(err.cause).be.instanceOf(Error);
+            should(err.cause.message).be.eql('boom');
+        });
+
+        it('reports the template a block comes from', function () {
+            const err = catchError(() => s.renderFile('/child.html', { boom: boom }));
+
+            should(err.filename).be.eql('/child.html');
+            should(err.line).be.eql(3);
+            should(err.templateStack).be.eql(['/child.html']);
+        });
+
+        it('reports the parent template after a block', function () {
+            let calls = 0;
+            const err = catchError(() => s.renderFile('/child.html', {
+                boom: () => {
+                    calls += 1;
+                    if (calls > 1) {
+                        boom();
+                    }
+                }
+            }));
+
+            should(err.filename).be.eql('/base.html');
+            should(err.line).be.eql(2);
+            should(err.column).be.eql(1);
+            should(err.templateStack).be.eql(['/child.html', '/base.html']);
+        });
+
+        it('lists the templates that include the failing one', function () {
+            const err = catchError(() => s.renderFile('/list.html', { boom: boom }));
+
+            should(err.filename).be.eql('/item.html');
+            should(err.line).be.eql(3);
+            should(err.templateStack).be.eql(['/list.html', '/item.html']);
+            should(err.cause.message).be.eql('boom');
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import swig, { Swig } from '../lib/swig';
+import * as should from 'should';
+import { onceUncaught } from './helpers';
+
+/**
+ * A fake Express application, only what is needed to render views.
+ */
+function createApp(engine, settings = {}) {
+    return {
+        engines: { html: engine },
+        settings: settings,
+        locals: { site: 'Tacos' },
+        render(name, opts, cb) {
+            const renderOptions = Object.assign({}, this.locals, opts);
+            renderOptions.settings = this.settings;
+            if (renderOptions.cache == null) {
+                renderOptions.cache = !!this.settings['view cache'];
+            }
+            this.engines.html(name, renderOptions, cb);
+        }
+    };
+}
+
+describe('Express view engine', () => {
+    let templates, s: Swig;
+
+    beforeEach(() => {
+        templates = {
+            '/page.html': '{{ site }} {{ title }} {{ user }}{% include "./partial.html" %}',
+            '/partial.html': '!'
+        };
+        s = new Swig({ loader: swig.loaders.memory(templates) });
+    });
+
+    it('merges settings, response locals and render locals', (done) => {
+        const app = createApp(s.createViewEngine(), { title: 'Menu' });
+
+        app.render('/page.html', { _locals: { user: 'lleo' } }, (err, output) => {
+            should(output).be.eql('Tacos Menu lleo!');
+            done();
+        });
+    });
+
+    it('reloads templates when the view cache is disabled', (done) => {
+        const app = createApp(s.createViewEngine(), { 'view cache': false });
+
+        app.render('/page.html', { user: 'a' }, (err, output) => {
+            should(output).be.eql('Tacos  a!');
+            templates['/partial.html'] = '?';
+            app.render('/page.html', { user: 'b' }, (err, output) => {
+                should(output).be.eql('Tacos  b?');
+                done();
+            });
+        });
+    });
+
+    it('caches templates when the view cache is enabled', (done) => {
+        const app = createApp(s.createViewEngine(), { 'view cache': true });
+
+        app.render('/page.html', { user: 'a' }, (err, output) => {
+            templates['/partial.html'] = '?';
+            app.render('/page.html', { user: 'b' }, (err, output) => {
+                should(output).be.eql('Tacos  b!');
+                done();
+            });
+        });
+    });
+
+    it('does not change the cache of the environment', (done) => {
+        const cached = s.compileFile('/page.html'),
+            app = createApp(s.createViewEngine(), { 'view cache': false });
+
+        templates['/partial.html'] = '?';
+        app.render('/page.html', { user: 'a' }, (err, output) => {
+            should(output).be.eql('Tacos  a?');
+            should(s.compileFile('/page.html')).be.exactly(cached);
+            done();
+        });
+    });
+
+    it('keeps the view cache setting of each render apart', (done) => {
+        const engine = s.createViewEngine(),
+            cached = createApp(engine, { 'view cache': true }),
+            uncached = createApp(engine, { 'view cache': false });
+        let pending = 2;
+
+        function finish() {
+            pending -= 1;
+            if (!pending) {
+                done();
+            }
+        }
+
+        cached.render('/page.html', { user: 'a' }, () => {
+            templates['/partial.html'] = '?';
+            uncached.render('/page.html', { user: 'b' }, (err, output) => {
+                should(output).be.eql('Tacos  b?');
+                finish();
+            });
+            cached.render('/page.html', { user: 'c' }, (err, output) => {
+                should(output).be.eql('Tacos  c!');
+                finish();
+            });
+        });
+    });
+
+    it('lets errors thrown by the callback escape', (done) => {
+        const app = createApp(s.createViewEngine());
+
+        onceUncaught((err) => {
+            should(err.message).be.eql('From the callback');
+            done();
+        });
+        app.render('/page.html', {}, () => {
+            throw new Error('From the callback');
+        });
+    });
+
+    it('passes errors to the callback', (done) => {
+        const app = createApp(s.createViewEngine());
+
+        app.render('/missing.html', {}, (err) => {
+            should(err.message).match(/Unable to find template "\/missing\.html"/);
+            done();
+        });
+    });
+
+    it('is available on the module', () => {
+        should(swig.__express).be.a.Function();
+    });
+});
@@ -0,0 +1,15 @@
+/**
+ * Catch the next uncaught exception instead of failing the test run with it.
+ * The listeners of the test runner are put back before the error is checked.
+ *
+ * @param check   Called with the error.
+ */
+export function onceUncaught(check: (err: Error) => void) {
+    const listeners = process.listeners('uncaughtException');
+
+    process.removeAllListeners('uncaughtException');
+    process.once('uncaughtException', (err) => {
+        listeners.forEach((listener) => process.on('uncaughtException', listener));
+        check(err);
+    });
+}
@@ -0,0 +1,93 @@
+import swig, { Swig, TagNode } from '../lib/swig';
+import should = require('should');
+
+describe('Line statements', function () {
+    const s = new Swig({ lineStatementPrefix: '%', lineCommentPrefix: '##' });
+
+    it('are tags on a line of their own', function () {
+        should(s.render('% for x in 1..3\n{{ x }}\n% endfor\n')).be.eql('1\n2\n3\n');
+        should(s.render('  % if a\nyes\n  % else\nno\n  % endif\nend', { locals: { a: true } })).be.eql('yes\nend');
+        should(s.render('% set a = [1, 2]\n{{ a|join("-") }}')).be.eql('1-2');
+    });
+
+    it('only start a line', function () {
+        should(s.render('{{ 1 }}% if a\n100 % done')).be.eql('1% if a\n100 % done');
+    });
+
+    it('can end a line with a line comment', function () {
+        should(s.render('% if true ## always\nyes\n% endif\n')).be.eql('yes\n');
+    });
+
+    it('are off by default', function () {
+        should(new Swig().render('% if a\n## b')).be.eql('% if a\n## b');
+    });
+
+    it('are text in raw tags', function () {
+        should(s.render('% raw\n% if\n## keep\n% endraw\nz')).be.eql('% if\n## keep\nz');
+    });
+
+    it('can be mixed with tags', function () {
+        should(s.render('% if true\n{% for x in [1, 2] %}{{ x }}{% endfor %}\n% endif\n')).be.eql('12\n');
+    });
+
+    it('report errors on their line and column', function () {
+        should.throws(function () {
+            s.render('a\n  % tacos\n', { filename: 'page.html' });
+        }, /Unexpected tag "tacos" on line 2 in file page\.html\./);
+        should(s.check('a\n% if b|nope\n% endif\n')).match([{ message: 'Invalid filter "nope"', line: 2, column: 7 }]);
+    });
+
+    it('are found as dependencies', function () {
+        const loading = new Swig({
+            lineStatementPrefix: '%',
+            loader: swig.loaders.memory({ '/a.html': 'A' })
+        });
+
+        return loading.renderAsync('% include "a.html"\nB', { filename: '/page.html' }).then((out) => {
+            should(out).be.eql('AB');
+        });
+    });
+
+    it('are read into the AST', function () {
+        const opts = { lineStatementPrefix: '%', lineCommentPrefix: '##' },
+            source = 'a ## note\n% for x in y\n{{ x }}\n% endfor\n',
+            tree = swig.parseToAst(source, opts),
+            tag = tree.body[3] as TagNode;
+
+        should(tree.body.map((node) => node.type)).be.eql(['Text', 'Comment', 'Text', 'Tag']);
+        should(tree.body[1]).match({ value: ' note', lineComment: true });
+        should(tag.lineStatement).be.true();
+        should(tag.end.lineStatement).be.true();
+        should(swig.printAst(tree, opts)).be.eql('a## note\n% for x in y\n{{ x }}\n% endfor\n');
+        should(swig.printAst(tree)).be.eql('a{# note#}\n{% for x in y %}{{ x }}\n{% endfor %}');
+    });
+
+    it('must have a prefix without whitespace', function () {
+        should.throws(function () {
+            new Swig({ lineStatementPrefix: '' });
+        }, /Option "lineStatementPrefix" must be a string without whitespace\./);
+        should.throws(function () {
+            new Swig({ lineCommentPrefix: '# ' });
+        }, /Option "lineCommentPrefix" must be a string without whitespace\./);
+        should.throws(function () {
+            new Swig({ lineStatementPrefix: '#', lineCommentPrefix: '#' });
+        }, /must not be the same/);
+    });
+});
+
+describe('Line comments', function () {
+    const s = new Swig({ lineCommentPrefix: '##' });
+
+    it('are removed to the end of the line', function () {
+        should(s.render('port = 80 ## default\nhost = a\n')).be.eql('port = 80\nhost = a\n');
+        should(s.render('## header\n{{ "a" }} ## b')).be.eql('\na');
+    });
+
+    it('are not read in tags or variables', function () {
+        should(s.render('{{ "a ## b" }}')).be.eql('a ## b');
+    });
+
+    it('lose to a longer line statement prefix', function () {
+        should(new Swig({ lineStatementPrefix: '#', lineCommentPrefix: '##' }).render('## c\n# if 1\nx\n# endif\n')).be.eql('\nx\n');
+    });
+});
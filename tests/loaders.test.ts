@@ -62,6 +62,68 @@ describe('swig.loaders', () => {
         });
     });
 
+    describe('Asynchronous', () => {
+        // A loader that can only be used through the callback
+        function asyncLoader(templates) {
+            const mem = swig.loaders.memory(templates);
+            return {
+                reslove: mem.reslove,
+                load: (identifier, cb?): string => {
+                    if (cb) {
+                        setImmediate(() => {
+                            try {
+                                mem.load(identifier, cb);
+                            } catch (err) {
+                                cb(err, undefined);
+                            }
+                        });
+                        return;
+                    }
+                    throw new Error('Loaded "' + identifier + '" synchronously.');
+                }
+            };
+        }
+
+        const templates = {
+            '/layout.html': '<html>{% block content %}{% endblock %}</html>',
+            '/page.html': '{% extends "layout.html" %}{% import "macros.html" as m %}{% block content %}{{ m.hi(name) }}{% include "content.html" %}{% endblock %}',
+            '/macros.html': '{% macro hi(n) %}Hi {{ n }}!{% endmacro %}',
+            '/content.html': ' Bye {{ name }}!',
+            '/missing.html': '{% include "nope.html" ignore missing %}done'
+        };
+
+        it('loads extends, import and include through the callback', () => {
+            const s = new Swig({ loader: asyncLoader(templates) });
+            return s.renderFileAsync('page.html', { name: 'world' }).then((html) => {
+                should(html).be.eql('<html>Hi world! Bye world!</html>');
+            });
+        });
+
+        it('can still ignore missing includes', () => {
+            const s = new Swig({ loader: asyncLoader(templates) });
+            return s.renderFileAsync('missing.html').then((html) => {
+                should(html).be.eql('done');
+            });
+        });
+
+        it('rejects on undefined template', () => {
+            const s = new Swig({ loader: asyncLoader(templates) });
+            return s.renderFileAsync('foobar').then(() => {
+                throw new Error('Should have rejected.');
+            }, (err) => {
+                should(err.message).match(/Unable to find template "\/foobar"\./);
+            });
+        });
+
+        it('uses the asynchronous path for the renderFile callback', (done) => {
+            const s = new Swig({ loader: asyncLoader(templates) });
+            s.renderFile('page.html', { name: 'Tacos' }, (err, out) => {
+                should(out).be.eql('<html>Hi Tacos! Bye Tacos!</html>');
+                done();
+            });
+        });
+    });
+
     describe('FileSystem', function () {
         let macroExpectation = '\n\nasfdasdf\n\n\n\n\nHahahahahah!\n\n\n\n\n\n\n\n\n\n';
 
@@ -1,6 +1,7 @@
 import * as should from 'should';
-import swig, { Swig } from '../lib/swig';
+import swig, { Swig, Token } from '../lib/swig';
 import { statSync, readFileSync } from 'fs';
+import { onceUncaught } from './helpers';
 
 describe('Options', () => {
     let swig: Swig;
@@ -143,6 +144,16 @@ describe('swog.compileFile', () => {
             done();
         });
     });
+
+    it('lets errors thrown by the callback escape', function (done) {
+        onceUncaught(function (err) {
+            should(err.message).be.eql('From the callback');
+            done();
+        });
+        swig.compileFile(test, {}, function () {
+            throw new Error('From the callback');
+        });
+    });
 });
 
 
@@ -153,7 +164,8 @@ describe('swig.renderFile', () => {
         const s = new Swig({ loader: swig.loaders.memory({ 'error.html': '{{ foo() }}' }) });
 
         s.renderFile('error.html', { foo: function () { throw new Error('bunk'); } }, function (err, out) {
-            should(err.message).be.eql('bunk');
+            should(err.message).be.eql('bunk on line 1 in file /error.html.');
+            should(err.cause.message).be.eql('bunk');
             done();
         });
     });
@@ -187,3 +199,261 @@ describe('swig.renderFile', () => {
         });
     });
 })
+
+describe('swig async API', () => {
+    const test = __dirname + '/cases/extends_1.test.html',
+        expectation = readFileSync(test.replace('test.html', 'expectation.html'), 'utf8');
+
+    let s: Swig;
+    beforeEach(() => {
+        s = new Swig();
+    });
+    afterEach(() => {
+        s = null;
+    });
+
+    it('compileFileAsync resolves with a template function', () => {
+        return s.compileFileAsync(test).then((fn) => {
+            should(fn).is.a.Function();
+            should(fn()).be.eql(expectation);
+        });
+    });
+
+    it('renderFileAsync resolves with the output', () => {
+        return s.renderFileAsync(test).then((out) => {
+            should(out).be.eql(expectation);
+        });
+    });
+
+    it('renderFileAsync rejects with errors', () => {
+        return s.renderFileAsync(__dirname + '/cases-error/extends-non-existent.test.html').then(() => {
+            throw new Error('Should have rejected.');
+        }, (err) => {
+            should(err.code).be.eql('ENOENT');
+        });
+    });
+
+    it('renderAsync loads dependencies relative to the filename', () => {
+        return s.renderAsync('{% extends "./extends_base.html" %}{% block body %}{{ a }}{% endblock %}', {
+            filename: __dirname + '/cases/page.html',
+            locals: { a: 'Tacos' }
+        }).then((out) => {
+            should(out).containEql('Tacos');
+        });
+    });
+});
+
+describe('swig streams', () => {
+    function collect(stream, cb) {
+        const chunks = [];
+        stream.on('data', (chunk) => {
+            chunks.push(chunk.toString());
+        });
+        stream.on('error', cb);
+        stream.on('end', () => {
+            cb(null, chunks);
+        });
+    }
+
+    it('compileStream pushes output before a slow block renders', (done) => {
+        const s = new Swig(),
+            tpl = s.compileStream('<h1>{{ title }}</h1>{% if true %}{{ slow() }}{% endif %}'),
+            stream = tpl({
+                title: 'Tacos',
+                slow: () => {
+                    should(received.join('')).be.eql('<h1>Tacos</h1>');
+                    return 'done';
+                }
+            }),
+            received = [];
+
+        stream.on('data', (chunk) => {
+            received.push(chunk.toString());
+        });
+        stream.on('end', () => {
+            should(received.join('')).be.eql('<h1>Tacos</h1>done');
+            done();
+        });
+    });
+
+    it('renderFileStream flushes at include boundaries', (done) => {
+        const s = new Swig({
+            loader: swig.loaders.memory({
+                'page.html': '<html>{% include "content.html" %}</html>',
+                'content.html': 'Hello {% if name %}{{ name }}{% endif %}!'
+            })
+        });
+
+        collect(s.renderFileStream('page.html', { name: 'world' }), (err, chunks) => {
+            should(chunks).be.eql(['<html>', 'Hello ', 'world!</html>']);
+            done();
+        });
+    });
+
+    it('keeps filter and spaceless output together', (done) => {
+        const s = new Swig();
+
+        collect(s.compileStream('{% filter upper %}a{% if true %}b{% endif %}{% endfilter %}{% spaceless %} <p></p> {% if true %}<p></p>{% endif %}{% endspaceless %}')(), (err, chunks) => {
+            should(chunks).be.eql(['AB', '<p></p><p></p>']);
+            done();
+        });
+    });
+
+    it('emits errors on the stream', (done) => {
+        const s = new Swig({ loader: swig.loaders.memory({ 'error.html': '{{ foo() }}' }) });
+
+        collect(s.renderFileStream('error.html', { foo: () => { throw new Error('bunk'); } }), (err) => {
+            should(err.message).be.eql('bunk on line 1 in file /error.html.');
+            should(err.cause.message).be.eql('bunk');
+            done();
+        });
+    });
+
+    it('throws errors that nothing listens for outside of the promise', (done) => {
+        const s = new Swig({ loader: swig.loaders.memory({}) }),
+            rejected = (err) => done(err);
+
+        process.once('unhandledRejection', rejected);
+        onceUncaught((err) => {
+            process.removeListener('unhandledRejection', rejected);
+            should(err.message).match(/Unable to find template "\/missing\.html"/);
+            done();
+        });
+        s.renderFileStream('missing.html');
+    });
+});
+
+describe('swig.precompile and swig.run', () => {
+    let s: Swig;
+    beforeEach(() => {
+        s = new Swig();
+    });
+    afterEach(() => {
+        s = null;
+    });
+
+    it('returns a template function and its source', () => {
+        const pre = s.precompile('Hello {{ name|upper }}!');
+        should(pre.tpl).is.a.Function();
+        should(pre.source).startWith('function (_swig, _ctx, _filters, _utils, _fn, _flush, _undef, _tests) {');
+        should(s.run(pre.tpl, { name: 'tacos' })).be.eql('Hello TACOS!');
+    });
+
+    it('source can be evaluated without the parser', () => {
+        const source = s.precompile('{% for a in b %}{{ loop.index }}{{ a }}{% endfor %}').source,
+            tpl = new Function('return ' + source)();
+        should(new Swig().run(tpl, { b: ['a', 'b'] })).be.eql('1a2b');
+    });
+
+    it('uses default locals', () => {
+        const a = new Swig({ locals: { a: 1 } });
+        should(a.run(a.precompile('{{ a }}{{ b }}').tpl, { b: 2 })).be.eql('12');
+    });
+
+    it('caches templates run with a filename for includes', () => {
+        const partial = s.precompile('Hi {{ name }}').tpl,
+            page = s.precompile('{% include "/partial.html" %}!').tpl;
+
+        s.run(partial, {}, '/partial.html');
+        should(s.run(page, { name: 'tacos' })).be.eql('Hi tacos!');
+    });
+});
+
+describe('swig.setDefaults', () => {
+    it('merges options into an instance', () => {
+        const s = new Swig({ locals: { a: 1 } });
+        s.setDefaults({ varControls: ['<%=', '%>'] });
+        should(s.render('<%= a %>')).be.eql('1');
+    });
+
+    it('validates the options', () => {
+        const s = new Swig();
+        should.throws(() => {
+            s.setDefaults({ varControls: ['<<', '<<'] });
+        });
+        should(s.render('{{ a }}', { locals: { a: 1 } })).be.eql('1');
+    });
+});
+
+describe('Module API', () => {
+    afterEach(() => {
+        swig.setDefaults({ locals: {} });
+        swig.invalidateCache();
+    });
+
+    it('renders with the default instance', () => {
+        should(swig.render('{{ a }}', { locals: { a: 'tacos' } })).be.eql('tacos');
+        should(swig.compile('{{ a }}')({ a: 'burritos' })).be.eql('burritos');
+    });
+
+    it('can set defaults', () => {
+        swig.setDefaults({ locals: { a: 'tacos' } });
+        should(swig.render('{{ a }}')).be.eql('tacos');
+    });
+
+    it('can render files', () => {
+        const test = __dirname + '/cases/extends_1.test.html',
+            expectation = readFileSync(test.replace('test.html', 'expectation.html'), 'utf8');
+        should(swig.renderFile(test)).be.eql(expectation);
+        should(swig.compileFile(test)()).be.eql(expectation);
+    });
+
+    it('can set extensions and tags', () => {
+        swig.setExtension('moduleTacos', () => 'Tacos!');
+        swig.setTag('moduletacos', () => true, () => '_output += _ext.moduleTacos();\n');
+        should(swig.render('{% moduletacos %}')).be.eql('Tacos!');
+    });
+});
+
+describe('Registries', () => {
+    it('are separate for each instance', () => {
+        const a = new Swig(),
+            b = new Swig();
+        a.setFilter('tacos', () => 'tacos');
+        should(a.render('{{ "a"|tacos }}')).be.eql('tacos');
+        should.throws(() => {
+            b.render('{{ "a"|tacos }}');
+        }, /Invalid filter "tacos"/);
+        should(b.listFilters()).not.containEql('tacos');
+    });
+
+    it('can remove filters and tags', () => {
+        const s = new Swig();
+        s.removeFilter('upper');
+        s.removeTag('spaceless');
+        should(s.listFilters()).not.containEql('upper');
+        should(s.listTags()).not.containEql('spaceless');
+        should(new Swig().render('{{ "a"|upper }}')).be.eql('A');
+    });
+
+    it('are inherited by forks', () => {
+        const parent = new Swig({ autoescape: false });
+        parent.setFilter('tacos', () => 'tacos');
+
+        const child = parent.fork({ locals: { a: '<b>' } });
+        child.setFilter('burritos', () => 'burritos');
+        child.setExtension('salsa', () => 'salsa');
+        should(child.render('{{ a }}{{ a|tacos }}{{ a|burritos }}')).be.eql('<b>tacosburritos');
+        should(parent.listFilters()).containEql('tacos').and.not.containEql('burritos');
+
+        parent.setFilter('nachos', () => 'nachos');
+        should(child.listFilters()).not.containEql('nachos');
+    });
+
+    it('are used by the filter tag', () => {
+        const s = new Swig();
+        s.setFilter('tacos', (input) => input + ' tacos');
+        should(s.render('{% filter tacos %}two{% endfilter %}')).be.eql('two tacos');
+    });
+});
+
+describe('Parsed tokens', () => {
+    it('have their position in the source', () => {
+        const tokens: Token[] = new Swig().precompile('a\n  {{- b }}\n{%- if c %}{{ d }}{% endif %}').tokens.tokens;
+
+        should(tokens[0]).be.eql('a');
+        should(tokens[1]).match({ start: 4, end: 12, line: 2, column: 3 });
+        should(tokens[3]).match({ name: 'if', start: 13, end: 24, line: 3, column: 1 });
+        should(tokens[3].content[0]).match({ start: 24, end: 31, line: 3, column: 12 });
+    });
+});
@@ -16,6 +16,12 @@ describe('Tags', function () {
         }, /Unexpected end of tag "foo" on line 4\./)
     });
 
+    it('throws on missing endtag', function () {
+        should.throws(() => {
+            swig.render('\n{% if foo %}\n  {% for a in b %}{% endfor %}');
+        }, /Missing end tag for "if" on line 2\./)
+    });
+
     it('can have any set of tokens in end tags', function () {
         should(swig.render('{% if foo %}hi!{% endif the above will render if foo == true %}', { locals: { foo: true } }))
             .be.eql('hi!');
@@ -0,0 +1,62 @@
+import { Swig } from '../../lib/swig';
+import _ = require('lodash');
+import should = require('should');
+
+const swig = new Swig();
+
+var cases = [
+  { input: '{% for a in b %}{% if a > 2 %}{% break %}{% endif %}{{ a }}{% endfor %}', out: '12' },
+  { input: '{% for a in b %}{% if a is odd %}{% continue %}{% endif %}{{ a }}{% endfor %}', out: '24' },
+  { input: '{% for a in b %}{{ a }}{% break %}{{ a }}{% endfor %}', out: '1' },
+  { input: '{% for a in b %}{% continue %}{{ a }}{% endfor %}', out: '' },
+  { input: '{% for k, v in c %}{% if k == "b" %}{% break %}{% endif %}{{ v }}{% endfor %}', out: 'apple' },
+  { input: '{% for a in "abc" %}{% if a == "b" %}{% continue %}{% endif %}{{ a }}{% endfor %}', out: 'ac' },
+  { input: '{% for a in b %}{% for d in b %}{% if d > a %}{% break %}{% endif %}{{ d }}{% endfor %};{% endfor %}', out: '1;12;123;1234;' },
+  { input: '{% for a in b %}{% if a == 2 %}{% continue %}{% else %}{{ loop.index }}{% endif %}{% endfor %}', out: '134' },
+  { input: '{% for a in b %}{% if a < 4 %}{% if a is even %}{% continue %}{% endif %}{% else %}{% break %}{% endif %}{{ a }}{% endfor %}', out: '13' }
+];
+
+describe('Tag: break, continue', function () {
+  var opts = {
+    locals: {
+      b: [1, 2, 3, 4],
+      c: { 'a': 'apple', 'b': 'banana' }
+    }
+  };
+  _.each(cases, function (c) {
+    it(c.input + ' should render "' + c.out + '"', function () {
+      should(swig.render(c.input, opts)).be.eql(c.out);
+    });
+  });
+
+  it('restore loop and vars', function () {
+    should(swig.render('{% for a in b %}{% if a == 2 %}{% break %}{% endif %}{% endfor %}{{ a }}{{ loop }}', { locals: { loop: 'z', a: 'x', b: [1, 2, 3] } }))
+      .be.eql('xz');
+    should(swig.render('{% for a in b %}{% for d in b %}{% break %}{% endfor %}{{ loop.index }}{{ a }}{% endfor %}', opts))
+      .be.eql('11223344');
+  });
+
+  it('must be within a loop', function () {
+    should.throws(function () {
+      swig.render('{% break %}');
+    }, /Unexpected tag "break" on line 1\./);
+    should.throws(function () {
+      swig.render('{% if true %}{% continue %}{% endif %}');
+    }, /Unexpected tag "continue" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for a in b %}{% empty %}{% break %}{% endfor %}');
+    }, /Unexpected tag "break" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for a in b %}{% macro m() %}{% break %}{% endmacro %}{% endfor %}');
+    }, /Unexpected tag "break" on line 1\./);
+  });
+
+  it('do not accept arguments', function () {
+    should.throws(function () {
+      swig.render('{% for a in b %}{% break 2 %}{% endfor %}');
+    }, /"break" tag does not accept any tokens. Found "2" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for a in b %}{% continue a %}{% endfor %}');
+    }, /"continue" tag does not accept any tokens. Found "a" on line 1\./);
+  });
+});
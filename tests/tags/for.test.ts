@@ -28,14 +28,61 @@ var cases = [
   { input: '{% for a in d|default(["a"]) %}{{ a }}{% endfor %}', out: 'a' },
   { input: '{% for a in q %}hi{% endfor %}', out: '' },
   { input: '{% for a in b %}{% for d in c %}{% for a in b %}{% endfor %}{% endfor %}{% if loop.last %}last happens only once{% endif %}{% endfor %}', out: 'last happens only once' },
-  { input: '{% for a in "foobar"|reverse %}{{ a }}{% endfor %}', out: "raboof" }
+  { input: '{% for a in "foobar"|reverse %}{{ a }}{% endfor %}', out: "raboof" },
+  { input: '{% for a in 1..3 %}{{ a }}{% endfor %}', out: '123' },
+  { input: '{% for a in 0..b|length - 1 %}{{ a }}{% endfor %}', out: '012' },
+  { input: '{% for a in range(3) %}{{ a }}{% endfor %}', out: '012' },
+  { input: '{% for a in range(10, 0, -3) %}{{ a }}{% endfor %}', out: '10741' },
+  { input: '{% for a in [[1, 2], [3],] %}{{ a|join("") }}{% endfor %}', out: '123' },
+  { input: '{% for k, v in {x: 1, y: {z: 2},} %}{{ k }}{{ v.z|default(v) }}{% endfor %}', out: 'x1y2' },
+  { input: '{% for a in b[1:] %}{{ a }}{% endfor %}', out: '23' },
+  { input: '{% for a in "foobar"[::2] %}{{ a }}{% endfor %}', out: 'foa' },
+  { input: '{% for a in [] %}{{ a }}{% empty %}none{% endfor %}', out: 'none' },
+  { input: '{% for a in {} %}{{ a }}{% empty %}none{% endfor %}', out: 'none' },
+  { input: '{% for a in "" %}{{ a }}{% empty %}none{% endfor %}', out: 'none' },
+  { input: '{% for a in q %}{{ a }}{% else %}none{% endfor %}', out: 'none' },
+  { input: '{% for a in b %}{{ a }}{% empty %}none{% endfor %}', out: '123' },
+  { input: '{% for a, b in c %}{{ a }}{% else %}none{% endfor %}', out: 'ab' },
+  { input: '{% for a in "xy" %}{{ a }}{% empty %}none{% endfor %}', out: 'xy' },
+  { input: '{% for a in b %}{% if a > 1 %}{{ a }}{% else %}-{% endif %}{% else %}none{% endfor %}', out: '-23' },
+  { input: '{% for a in b %}{{ loop.length }}{% endfor %}', out: '333' },
+  { input: '{% for a in b %}{{ loop.cycle("odd", "even") }} {% endfor %}', out: 'odd even odd ' },
+  { input: '{% for a in b %}{{ loop.depth }}{{ loop.depth0 }}{% for d in c %}{{ loop.depth }}{{ loop.depth0 }}{% endfor %}{% endfor %}', out: '102121102121102121' },
+  { input: '{% for a in b %}{% for d in c %}{{ loop.parent.index }}{{ d }}{% endfor %}{% endfor %}', out: '1apple1banana2apple2banana3apple3banana' },
+  { input: '{% for a in b %}{{ loop.previtem|default("-") }}{{ a }}{{ loop.nextitem|default("-") }} {% endfor %}', out: '-12 123 23- ' },
+  { input: '{% for k, v in c %}{{ loop.previtem|default("-") }}>{{ loop.nextitem|default("-") }} {% endfor %}', out: '->banana apple>- ' },
+  { input: '{% for a in "xyz" %}{{ loop.nextitem }}{% endfor %}', out: 'yz' },
+  { input: '{% for a in [1, 1, 2, 1] %}{% if loop.changed(a) %}|{% endif %}{{ a }}{% endfor %}', out: '|11|2|1' },
+  { input: '{% for a in [[1, "a"], [1, "a"], [1, "b"]] %}{{ loop.changed(a[0], a[1]) }} {% endfor %}', out: 'true false true ' },
+  { input: '{% for a in b if a > 1 %}{{ loop.index }}{{ a }}{{ loop.length }} {% endfor %}', out: '122 232 ' },
+  { input: '{% for a in b if a is odd %}{{ loop.first }}{{ loop.last }} {% endfor %}', out: 'truefalse falsetrue ' },
+  { input: '{% for k, v in c if k != "a" %}{{ k }}{{ v }}{{ loop.index }}{% endfor %}', out: 'bbanana1' },
+  { input: '{% for a in "abcab" if a != "b" %}{{ a }}{% endfor %}', out: 'aca' },
+  { input: '{% for a in 1..10 if a is even and a < 7 %}{{ a }}{% endfor %}', out: '246' },
+  { input: '{% for a in b|reverse if a != 2 %}{{ a }}{% endfor %}', out: '31' },
+  { input: '{% for a in b if a > 5 %}{{ a }}{% else %}none{% endfor %}', out: 'none' },
+  { input: '{% for a in b if a > 1 %}{{ a }}{% endfor %}{{ a }}', out: '23' },
+  { input: '{% for a in (b) %}{{ a }}{% endfor %}', out: '123' },
+  { input: '{% for a in b if (a > 1) %}{{ a }}{% endfor %}', out: '23' },
+  { input: '{% for a in b if (a > 2 if a else false) %}{{ a }}{% endfor %}', out: '3' },
+  { input: '{% for a in (b|reverse) if (a != 2 and a) %}{{ a }}{% endfor %}', out: '31' },
+  { input: '{% for a in recursive %}{{ a }}{% endfor %}', out: 'ab' },
+  { input: '{% for k, (x, y) in pairs %}{{ k }}{{ x }}{{ y }} {% endfor %}', out: 'a12 b34 ' },
+  { input: '{% for [x, y] in e %}{{ x }}{{ y }}{{ loop.index }} {% endfor %}', out: '121 342 ' },
+  { input: '{% for (x, [y, z]) in [[1, "ab"], [2, "c"]] %}{{ x }}{{ y }}{{ z }} {% endfor %}', out: '1ab 2c ' },
+  { input: '{% for [x, y] in e if y > 2 %}{{ x }}{{ y }}{{ loop.index }}{% endfor %}', out: '341' },
+  { input: '{% for [x, y] in e %}{% endfor %}{{ x }}{{ y }}', out: '' },
+  { input: '{% for a in [] %}{% else %}{% for d in c %}{{ d }}{% empty %}none{% endfor %}{% endfor %}', out: 'applebanana' }
 ];
 
 describe('Tag: for', function () {
   var opts = {
     locals: {
       b: [1, 2, 3],
-      c: { 'a': 'apple', 'b': 'banana' }
+      c: { 'a': 'apple', 'b': 'banana' },
+      recursive: ['a', 'b'],
+      pairs: { a: [1, 2], b: [3, 4] },
+      e: [[1, 2], [3, 4]]
     }
   };
   _.each(cases, function (c) {
@@ -44,11 +91,99 @@ describe('Tag: for', function () {
     });
   });
 
+  describe('recursive', function () {
+    var tree = [
+      { name: 'a', children: [{ name: 'b', children: [{ name: 'c' }] }, { name: 'd' }] },
+      { name: 'e' }
+    ];
+
+    it('renders other items with the body of the loop', function () {
+      should(swig.render('{% for n in tree recursive %}<li>{{ n.name }}{% if n.children %}<ul>{{ loop(n.children) }}</ul>{% endif %}</li>{% endfor %}', { locals: { tree: tree } }))
+        .be.eql('<li>a<ul><li>b<ul><li>c</li></ul></li><li>d</li></ul></li><li>e</li>');
+    });
+
+    it('has the depth and counters of each level', function () {
+      should(swig.render('{% for n in tree recursive %}{{ n.name }}{{ loop.depth }}{{ loop.index }}{{ loop.length }}({{ loop(n.children) }}){% endfor %}', { locals: { tree: tree } }))
+        .be.eql('a112(b212(c311())d222())e122()');
+    });
+
+    it('restores the item after a level', function () {
+      should(swig.render('{% for n in tree recursive %}{{ loop(n.children) }}{{ n.name }}{{ loop.parent.index|default("") }}{% endfor %}{{ n }}', { locals: { tree: tree, n: '!' } }))
+        .be.eql('c1b1d1ae!');
+    });
+
+    it('can filter the items', function () {
+      should(swig.render('{% for n in tree if n.name != "b" recursive %}{{ n.name }}{{ loop(n.children) }}{% endfor %}', { locals: { tree: tree } }))
+        .be.eql('ade');
+    });
+  });
+
+  it('has no parent loop at the top', function () {
+    should(swig.render('{% for a in b %}{{ loop.parent|default("none") }}{{ loop.depth }}{% endfor %}', { locals: { b: [1], loop: { depth: 5 } } }))
+      .be.eql('none1');
+  });
+
   it('resets loop and vars', function () {
     should(swig.render('{% for a, b in c %}{% endfor %}{{ a }}{{ b }}{{ loop }}', { locals: { loop: 'z', a: 'x', b: 'y', c: { d: 'e', f: 'g' } } }))
       .be.eql('xyz');
   });
 
+  it('renders {% empty %} with the outer loop', function () {
+    should(swig.render('{% for a in b %}{% for d in [] %}{% empty %}{{ loop.index }}{{ a }}{% endfor %}{% endfor %}', opts))
+      .be.eql('112233');
+  });
+
+  it('throws on {% empty %} outside of a loop or with arguments', function () {
+    should.throws(function () {
+      swig.render('{% if a %}{% empty %}{% endif %}');
+    }, /Unexpected tag "empty" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for a in b %}{% empty what %}{% endfor %}');
+    }, /"empty" tag does not accept any tokens. Found "what" on line 1\./);
+  });
+
+  it('throws on a second {% empty %} or {% else %} in a loop', function () {
+    should.throws(function () {
+      swig.render('{% for c in items %}{{ c }}{% else %}A{% else %}B{% endfor %}');
+    }, /Unexpected tag "else" on line 1\. A loop has only one "empty" or "else" branch\./);
+    should.throws(function () {
+      swig.render('{% for c in items %}{% empty %}A\n{% else %}B{% endfor %}');
+    }, /Unexpected tag "else" on line 2\./);
+    should.throws(function () {
+      swig.render('{% for c in items %}{% else %}A{% empty %}B{% endfor %}');
+    }, /Unexpected tag "empty" on line 1\./);
+    should(swig.render('{% for c in [] %}{% else %}{% if c %}A{% else %}B{% endif %}{% endfor %}')).be.eql('B');
+  });
+
+  it('restores unpacked names', function () {
+    should(swig.render('{% for k, [x, y] in d %}{% endfor %}{{ k }}{{ x }}{{ y }}', { locals: { k: 1, x: 2, y: 3, d: { a: [4, 5] } } }))
+      .be.eql('123');
+  });
+
+  it('throws on names it cannot unpack into', function () {
+    should.throws(function () {
+      swig.render('{% for a, b, c in d %}{% endfor %}');
+    }, /Expected "value", "key, value" or names to unpack the value into before "in" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for (a, b), c in d %}{% endfor %}');
+    }, /Expected "value", "key, value" or names to unpack the value into before "in" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for (a, b] in d %}{% endfor %}');
+    }, /Unexpected "\]" on line 1\./);
+  });
+
+  it('throws on names without commas between them', function () {
+    should.throws(function () {
+      swig.render('{% for a b in rows %}{% endfor %}');
+    }, /Unexpected variable "b" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for (a b) in rows %}{% endfor %}');
+    }, /Unexpected variable "b" on line 1\./);
+    should.throws(function () {
+      swig.render('{% for k, [x y] in rows %}{% endfor %}');
+    }, /Unexpected variable "y" on line 1\./);
+  });
+
   it('throws on numbers as any argument', function () {
     should.throws(function () {
       swig.render('{% for a in 32 %}{% endfor %}');
@@ -9,6 +9,11 @@ describe('Tag: include', function () {
         should(s.render('{% include "foobar" %}')).be.eql('tacos!');
     });
 
+    it('can interpolate the file name', function () {
+        const s = new Swig({ loader: swig.loaders.memory({ '/foo/a.html': 'a', '/foo/b.html': 'b' }, '/foo') });
+        should(s.render('{% include "#{name}.html" %}', { locals: { name: 'b' } })).be.eql('b');
+    });
+
     describe('{% include "foo" ignore missing %}', function () {
         it('does not throw if missing', function () {
             should(s.render('{% include "foo" ignore missing %}', { filename: '/foo' }))
@@ -18,11 +23,11 @@ describe('Tag: include', function () {
         it('throws on bad syntax', function () {
             should.throws(function () {
                 s.render('{% include "foo" missing %}', { filename: '/bar' });
-            }, /Unexpected token "missing" on line 1\./);
+            }, /Unexpected token "missing" on line 1 in file \/bar\./);
 
             should.throws(function () {
                 s.render('{% include "foo" ignore foobar %}', { filename: '/baz' });
-            }, /Expected "missing" on line 1 but found "foobar"\./);
+            }, /Expected "missing" but found "foobar" on line 1 in file \/baz\./);
         });
     });
 });
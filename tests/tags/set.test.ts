@@ -27,7 +27,10 @@ var rightCases = [
     { code: '/= 2', result: '0.5' },
     { code: '= bar|default(1)', result: '1' },
     { code: '= foo === 1', result: 'true' },
-    { code: '= 1 === 1 and not false', result: 'true' }
+    { code: '= 1 === 1 and not false', result: 'true' },
+    { code: '= "a" if foo === 1 else "b"', result: 'a' },
+    { code: '= foo > 1 ? "a" : "b"|upper', result: 'B' },
+    { code: '= (foo + 1) * 2', result: '4' }
 ];
 
 describe('Tag: set', function () {
@@ -46,6 +49,13 @@ describe('Tag: set', function () {
         });
     });
 
+    it('unpacks a value into names', function () {
+        should(swig.render('{% set first, rest = ["a", "b", "c"] %}{{ first }}{{ rest }}')).be.eql('ab');
+        should(swig.render('{% set foo.bar, baz = pair|reverse %}{{ foo.bar }}{{ baz }}', { locals: { foo: {}, pair: [1, 2] } })).be.eql('21');
+        should(swig.render('{% set a, b, c = "xy" %}{{ a }}{{ b }}{{ c|default("-") }}')).be.eql('xy-');
+        should(swig.render('{% set a, b = nope %}{{ a|default("-") }}{{ b|default("-") }}')).be.eql('--');
+    });
+
     it('throws on incorrect assignments', function () {
         should.throws(function () {
             swig.render('{% set = foo %}');
@@ -56,5 +66,11 @@ describe('Tag: set', function () {
         should.throws(function () {
             swig.render('{% set .foo = "bar" %}');
         }, /Unexpected key "foo" on line 1\./);
+        should.throws(function () {
+            swig.render('{% set a, b += foo %}');
+        }, /Unexpected assignment "\+=" on line 1\./);
+        should.throws(function () {
+            swig.render('{% set , a = foo %}');
+        }, /Unexpected comma on line 1\./);
     });
 });
@@ -0,0 +1,140 @@
+import swig, { Swig } from '../lib/swig';
+import _ = require('lodash');
+import should = require('should');
+
+const cases: { [test: string]: { c?: string, v: any, e: string }[] } = {
+    defined: [
+        { v: 0, e: 'true' },
+        { v: null, e: 'true' },
+        { v: undefined, e: 'false' },
+        { c: 'v.a is defined', v: { a: '' }, e: 'true' },
+        { c: 'v.a is defined', v: null, e: 'false' },
+        { c: 'v.a.b is defined', v: {}, e: 'false' }
+    ],
+    'undefined': [
+        { v: undefined, e: 'true' },
+        { v: 'tacos', e: 'false' }
+    ],
+    none: [
+        { v: null, e: 'true' },
+        { v: undefined, e: 'false' },
+        { c: 'v is not none', v: 0, e: 'true' }
+    ],
+    odd: [
+        { v: 3, e: 'true' },
+        { v: -3, e: 'true' },
+        { v: 4, e: 'false' }
+    ],
+    even: [
+        { v: 4, e: 'true' },
+        { v: 3, e: 'false' }
+    ],
+    divisibleby: [
+        { c: 'v is divisibleby(3)', v: 9, e: 'true' },
+        { c: 'v is divisibleby(3)', v: 10, e: 'false' },
+        { c: 'v is not divisibleby(1 + 2)', v: 10, e: 'true' }
+    ],
+    iterable: [
+        { v: [1], e: 'true' },
+        { v: { a: 1 }, e: 'true' },
+        { v: 'ab', e: 'true' },
+        { v: 1, e: 'false' },
+        { v: null, e: 'false' }
+    ],
+    sequence: [
+        { v: [1], e: 'true' },
+        { v: 'ab', e: 'true' },
+        { v: { a: 1 }, e: 'false' }
+    ],
+    mapping: [
+        { v: { a: 1 }, e: 'true' },
+        { v: [1], e: 'false' },
+        { v: null, e: 'false' }
+    ],
+    number: [
+        { v: 1, e: 'true' },
+        { v: '1', e: 'false' }
+    ],
+    string: [
+        { v: '1', e: 'true' },
+        { v: 1, e: 'false' }
+    ],
+    callable: [
+        { v: function () { return; }, e: 'true' },
+        { v: 'tacos', e: 'false' }
+    ],
+    sameas: [
+        { c: 'v is sameas(1)', v: 1, e: 'true' },
+        { c: 'v is sameas("1")', v: 1, e: 'false' }
+    ],
+    lower: [
+        { v: 'tacos', e: 'true' },
+        { v: 'Tacos', e: 'false' }
+    ],
+    upper: [
+        { v: 'TACOS', e: 'true' },
+        { v: 'Tacos', e: 'false' }
+    ]
+};
+
+describe('Tests:', function () {
+    let s: Swig;
+
+    beforeEach(() => {
+        s = new Swig();
+    });
+    afterEach(() => {
+        s = null;
+    });
+
+    _.each(cases, function (cases, test) {
+        describe(test, function () {
+            _.each(cases, function (c) {
+                const code = '{{ ' + (c.c || 'v is ' + test) + ' }}';
+                it(code + ', v=' + JSON.stringify(c.v) + ' should render ' + c.e, function () {
+                    should(s.render(code, { locals: { v: c.v } })).be.eql(c.e);
+                });
+            });
+        });
+    });
+
+    it('can be used in tags', function () {
+        should(s.render('{% if v is defined and v is not none %}yes{% endif %}', { locals: { v: 0 } })).be.eql('yes');
+        should(s.render('{% for i in 1..6 %}{{ i }}{% if i is divisibleby(3) %}|{% endif %}{% endfor %}')).be.eql('123|456|');
+        should(s.render('{{ "odd" if v is odd else "even" }}', { locals: { v: 3 } })).be.eql('odd');
+    });
+
+    it('apply to the operand before them', function () {
+        should(s.render('{{ v|default(1) is odd }}')).be.eql('true');
+        should(s.render('{{ (v + 1) is odd }}', { locals: { v: 1 } })).be.eql('false');
+    });
+
+    it('check undefined variables in strict mode', function () {
+        should(s.render('{{ v is defined }}', { strictVariables: true })).be.eql('false');
+    });
+
+    it('can be set', function () {
+        s.setTest('big', function (input, size) { return input > (size || 10); });
+        should(s.render('{{ 11 is big }}, {{ 11 is big(20) }}')).be.eql('true, false');
+        should(s.listTests()).containEql('big');
+        should(new Swig().listTests()).not.containEql('big');
+    });
+
+    it('can be set on the module', function () {
+        swig.setTest('tacos', function (input) { return input === 'tacos'; });
+        should(swig.render('{{ "tacos" is tacos }}')).be.eql('true');
+    });
+
+    it('can be removed', function () {
+        s.removeTest('odd');
+        should.throws(function () {
+            s.render('{{ 1 is odd }}');
+        }, /Invalid test "odd" on line 1\./);
+    });
+
+    it('throws on unknown test', function () {
+        should.throws(function () {
+            s.render('{{ v is thisisnotreal }}', { filename: 'foobar.html' });
+        }, /Invalid test "thisisnotreal" on line 1 in file foobar\.html\./);
+    });
+});
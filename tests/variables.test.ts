@@ -1,4 +1,4 @@
-import { Swig } from '../lib/swig';
+import swigDefault, { Swig } from '../lib/swig';
 import should = require('should');
 import _ = require('lodash');
 
@@ -38,6 +38,15 @@ const cases = {
     'can include arrays': [
         { c: '{{ [0, 1, 3] }}', e: '0,1,3' }
     ],
+    'can nest array and object literals': [
+        { c: '{{ {a: {b: [1, {c: "d"}]}}.a.b[1].c }}', e: 'd' },
+        { c: '{{ [[1, 2], [3]]|json }}', e: '[[1,2],[3]]' },
+        { c: '{{ {a: "}"}.a }}', e: '}' },
+        { c: '{{ [1, [2, 3,],]|json }}', e: '[1,[2,3]]' },
+        { c: '{{ {a: 1, b: {c: 2,},}.b.c }}', e: '2' },
+        { c: '{{ [a, 2,]|join("-") }}', e: '1-2' },
+        { c: '{{ []|json }}{{ {}|json }}', e: '[]{}' }
+    ],
     'are escaped by default': [
         { c: '{{ foo }}', e: '&lt;blah&gt;' }
     ],
@@ -65,6 +74,84 @@ const cases = {
     ],
     'null objects': [
         { c: '{{ n }}', e: '' }
+    ],
+    'can use inline conditions': [
+        { c: '{{ "active" if a else "" }}', e: 'active' },
+        { c: '{{ "active" if n else "" }}', e: '' },
+        { c: '{{ a ? ap : bu }}', e: 'apples' },
+        { c: '{{ n ? ap : bu|upper }}', e: 'BURRITOS' },
+        { c: '{{ ap|upper if n else bu }}', e: 'burritos' },
+        { c: '{{ (ap if n else bu)|upper }}', e: 'BURRITOS' },
+        { c: '{{ ap if n else bu if n else a }}', e: '1' },
+        { c: '{{ a + 1 if a === 1 and ap else 0 }}', e: '2' },
+        { c: '{{ n|default(ap if a else bu) }}', e: 'apples' },
+        { c: '{{ [1, a ? 2 : 3, 4 if n else 5] }}', e: '1,2,5' },
+        { c: '{{ { b: a ? "x" : "y" }.b }}', e: 'x' }
+    ],
+    'can use ranges': [
+        { c: '{{ 1..3 }}', e: '1,2,3' },
+        { c: '{{ a..a + 2 }}', e: '1,2,3' },
+        { c: '{{ (1..3)|join("-") }}', e: '1-2-3' },
+        { c: '{{ 1..3 if n else 4..5 }}', e: '4,5' },
+        { c: '{{ range(3) }}', e: '0,1,2' },
+        { c: '{{ range(1, 7, 2) }}', e: '1,3,5' },
+        { c: '{{ range(3, 0, -1) }}', e: '3,2,1' },
+        { c: '{{ range(3, 0) }}', e: '' }
+    ],
+    'can concatenate strings': [
+        { c: '{{ "/users/" ~ a }}', e: '/users/1' },
+        { c: '{{ a ~ a + 1 }}', e: '12' },
+        { c: '{{ ap ~ n ~ u }}', e: 'apples' },
+        { c: '{{ "x" ~ bu|upper }}', e: 'xBURRITOS' },
+        { c: '{{ ("x" ~ bu)|upper }}', e: 'XBURRITOS' },
+        { c: '{{ ap ~ "!" === "apples!" }}', e: 'true' },
+        { c: '{{ foo ~ "<p>" }}', e: '&lt;blah&gt;&lt;p&gt;' }
+    ],
+    'can interpolate strings': [
+        { c: '{{ "Hello #{bu}!" }}', e: 'Hello burritos!' },
+        { c: '{{ "#{ a + 1 } #{ ap|upper }" }}', e: '2 APPLES' },
+        { c: '{{ "#{ u|default("none") }" }}', e: 'none' },
+        { c: '{{ ap|replace("s", "#{a}") }}', e: 'apple1' },
+        { c: '{{ "a # b" }}', e: 'a # b' },
+        { c: "{{ 'Hello #{bu}' }}", e: 'Hello #{bu}' },
+        { c: '{{ "#{ {a: 1}.a }-#{ {b: {c: "}"} }.b.c }" }}', e: '1-}' },
+        { c: '{{ "#{ "}" ~ bu }!" }}', e: '}burritos!' },
+        { c: '{{ "#{ l|join("}") } #{" }}', e: '1}2}3}4}5 #{' }
+    ],
+    'can slice arrays and strings': [
+        { c: '{{ l[1:3] }}', e: '2,3' },
+        { c: '{{ l[:2] }}', e: '1,2' },
+        { c: '{{ l[3:] }}', e: '4,5' },
+        { c: '{{ l[-2:] }}', e: '4,5' },
+        { c: '{{ l[::2] }}', e: '1,3,5' },
+        { c: '{{ l[::-1] }}', e: '5,4,3,2,1' },
+        { c: '{{ l[a:a + 2]|join("-") }}', e: '2-3' },
+        { c: '{{ l[1:][0] }}', e: '2' },
+        { c: '{{ ap[:-1] }}', e: 'apple' },
+        { c: '{{ ap[1:3]|upper }}', e: 'PP' },
+        { c: '{{ u[1:] }}', e: '' }
+    ],
+    'can fall back from undefined and null with ??': [
+        { c: '{{ u ?? "x" }}', e: 'x' },
+        { c: '{{ n ?? "x" }}', e: 'x' },
+        { c: '{{ o3.n ?? "x" }}', e: 'x' },
+        { c: '{{ food.b ?? food.a }}', e: 'tacos' },
+        { c: '{{ z ?? "x" }}, {{ f ?? "x" }}, {{ "" ?? "x" }}', e: '0, false, ' },
+        { c: '{{ u ?? n ?? "x" }}', e: 'x' },
+        { c: '{{ u ?? a + 1 }}', e: '2' },
+        { c: '{{ u ?? 1 == 1 }}', e: 'true' },
+        { c: '{{ u ?? bu|upper }}', e: 'BURRITOS' },
+        { c: '{{ (u ?? 2) * 3 }}', e: '6' },
+        { c: '{{ [u ?? 1, a ?? 3]|join("-") }}', e: '1-1' },
+        { c: '{{ "y" if u ?? true else "n" }}', e: 'y' }
+    ],
+    'can read optional chains with ?.': [
+        { c: '"{{ u?.v?.w }}"', e: '""' },
+        { c: '{{ food?.a }}', e: 'tacos' },
+        { c: '{{ h?.g.i }}', e: 'q' },
+        { c: '{{ u?.v ?? "x" }}', e: 'x' },
+        { c: '{{ u?.v is defined }}', e: 'false' },
+        { c: '{{ o2?.$bar }}', e: 'bar' }
     ]
 };
 
@@ -83,10 +170,13 @@ describe('Variables', () => {
             g: { '0': { q: { c: { b: { foo: 'hi!' } } } } },
             h: { g: { i: 'q' } },
             i: 'foo',
+            l: [1, 2, 3, 4, 5],
             n: null,
             o: Object.create({ foo: function () { return 'bar'; } }),
             o2: { a: 'bar', foo: function (b) { return b || this.a; }, $bar: 'bar' },
-            o3: { n: null }
+            o3: { n: null },
+            z: 0,
+            f: false
         }
     };
     const swig = new Swig();
@@ -101,6 +191,164 @@ describe('Variables', () => {
         });
     });
 
+    it('throws on incomplete inline conditions', function () {
+        should.throws(function () {
+            swig.render('{{ ap if a }}');
+        }, /Unexpected "if" without "else" on line 1\./);
+        should.throws(function () {
+            swig.render('{{ ap else bu }}');
+        }, /Unexpected "else" on line 1\./);
+        should.throws(function () {
+            swig.render('{{ ? ap : bu }}');
+        }, /Unexpected inline condition on line 1\./);
+        should.throws(function () {
+            swig.render('{{ a ? ap }}');
+        }, /Unable to parse "a \? ap" on line 1\./);
+    });
+
+    it('throws on ranges without a start or an end', function () {
+        should.throws(function () {
+            swig.render('{{ 1.. }}');
+        }, /Unexpected range on line 1\./);
+        should.throws(function () {
+            swig.render('{{ [..3] }}');
+        }, /Unexpected range on line 1\./);
+    });
+
+    it('throws on bad concatenations and interpolations', function () {
+        should.throws(function () {
+            swig.render('{{ ~ a }}');
+        }, /Unexpected concatenation on line 1\./);
+        should.throws(function () {
+            swig.render('{{ "#{}" }}');
+        }, /Unable to parse "#\{\}" on line 1\./);
+        should.throws(function () {
+            swig.render('{{ "#{ a( }" }}');
+        }, /Unable to parse "#\{ a\( \}" on line 1\./);
+    });
+
+    it('throws on ?? without a left or a right side', function () {
+        should.throws(function () {
+            swig.render('{{ ?? a }}');
+        }, /Unexpected "\?\?" on line 1\./);
+        should.throws(function () {
+            swig.render('{{ a ?? }}');
+        }, /Unexpected "\?\?" on line 1\./);
+    });
+
+    it('can use ?? and ?. in tags', function () {
+        should(swig.render('{% if u?.v ?? true %}yes{% endif %}')).be.eql('yes');
+        should(swig.render('{% set x = food?.b ?? "none" %}{{ x }}', opts)).be.eql('none');
+        should(swig.render('{% for x in u?.items ?? [1, 2] %}{{ x }}{% endfor %}')).be.eql('12');
+    });
+
+    it('prefers a range variable in the context over the built-in', function () {
+        should(swig.render('{{ range(1) }}', { locals: { range: function () { return 'mine'; } } })).be.eql('mine');
+        should(swig.render('{{ 1..2 }}', { locals: { range: 'cheap' } })).be.eql('1,2');
+        should(swig.render('{{ range }}', { locals: { range: 'cheap' } })).be.eql('cheap');
+    });
+
+    it('only has the built-in range as a function call', function () {
+        should(swig.render('"{{ range }}"')).be.eql('""');
+        should(swig.render('{% set range = 3 %}{{ range }}')).be.eql('3');
+        should.throws(function () {
+            new Swig({ strictVariables: true }).render('{{ range }}');
+        }, /Undefined variable "range" on line 1\./);
+    });
+
+    describe('strict mode', function () {
+        const strict = new Swig({ strictVariables: true });
+
+        it('throws on undefined paths with line and file', function () {
+            should.throws(function () {
+                strict.render('\n{{ usr.name }}', { filename: 'page.html', locals: { user: { name: 'lleo' } } });
+            }, /Undefined variable "usr\.name" on line 2 in file page\.html\./);
+            should.throws(function () {
+                strict.render('{% if user.nmae %}{% endif %}', { locals: { user: { name: 'lleo' } } });
+            }, /Undefined variable "user\.nmae" on line 1\./);
+        });
+
+        it('outputs defined values, including null and falsy ones', function () {
+            should(strict.render('{{ a }}{{ n }}{{ o3.n }}{{ z }}{{ f }}', { locals: { a: 1, n: null, o3: { n: null }, z: 0, f: false } }))
+                .be.eql('10false');
+        });
+
+        it('allows undefined input to ?? and optional chains', function () {
+            should(strict.render('{{ u ?? "a" }}{{ u.v ?? "b" }}{{ u?.v }}{{ n?.v ?? "c" }}', { locals: { n: null } })).be.eql('abc');
+            should.throws(function () {
+                strict.render('{{ a ?? u }}');
+            }, /Undefined variable "u" on line 1\./);
+        });
+
+        it('only allows the name before ?. to be undefined in an optional chain', function () {
+            should(strict.render('"{{ u.v?.w }}{{ u.v?.w.x }}{{ o.n?.w }}"', { locals: { u: {}, o: { n: null } } })).be.eql('""');
+            should.throws(function () {
+                strict.render('{{ u.v?.w }}');
+            }, /Undefined variable "u\.v\.w" on line 1\./);
+            should.throws(function () {
+                strict.render('{{ u?.v.w }}', { locals: { u: {} } });
+            }, /Undefined variable "u\.v\.w" on line 1\./);
+            should.throws(function () {
+                strict.render('{{ u.v?.w.x }}', { locals: { u: { v: {} } } });
+            }, /Undefined variable "u\.v\.w\.x" on line 1\./);
+            should(strict.render('{{ u.v?.f() }}{{ u.v?.w.f() }}', { locals: { u: {} } })).be.eql('');
+        });
+
+        it('throws on calls to undefined functions', function () {
+            should.throws(function () {
+                strict.render('\n{{ foo() }}');
+            }, /Undefined variable "foo" on line 2\./);
+            should.throws(function () {
+                strict.render('{{ a.b(1) }}', { locals: { a: {} } });
+            }, /Undefined variable "a\.b" on line 1\./);
+            should(strict.render('{{ foo(1) }}{{ range(2) }}', { locals: { foo: (n) => n + 1 } })).be.eql('20,1');
+            should(swig.render('"{{ foo() }}"')).be.eql('""');
+        });
+
+        it('allows undefined input to the default filter', function () {
+            should(strict.render('{{ u|default("tacos") }}{{ u.v|default("!") }}')).be.eql('tacos!');
+        });
+
+        it('can be overridden for a single render', function () {
+            should(strict.render('"{{ u }}"', { strictVariables: false })).be.eql('""');
+            should.throws(function () {
+                swig.render('{{ u }}', { strictVariables: true });
+            }, /Undefined variable "u" on line 1\./);
+        });
+
+        it('can be switched on and off for each render of the same cached file', function () {
+            const s = new Swig({
+                loader: swigDefault.loaders.memory({
+                    '/page.html': '"{{ u }}"{% include "./partial.html" %}',
+                    '/partial.html': '{{ w }}'
+                })
+            });
+            should(s.renderFile('/page.html')).be.eql('""');
+            should.throws(function () {
+                s.renderFile('/page.html', {}, { strictVariables: true });
+            }, /Undefined variable "u" on line 1 in file \/page\.html\./);
+            should.throws(function () {
+                s.compileFile('/page.html')({ u: 1 }, null, { strictVariables: true });
+            }, /Undefined variable "w" on line 1 in file \/partial\.html\./);
+            should(s.compileFile('/page.html', { strictVariables: true })({ u: 1, w: 2 })).be.eql('"1"2');
+            should(s.compileFile('/page.html', { onUndefined: (path) => '[' + path + ']' })()).be.eql('"[u]"[w]');
+            should(s.renderFile('/page.html')).be.eql('""');
+        });
+
+        it('calls onUndefined instead of throwing', function () {
+            const missed = [],
+                s = new Swig({
+                    strictVariables: true,
+                    onUndefined: function (path, ctx: any) {
+                        missed.push(path + ':' + ctx.a);
+                        return '[' + path + ']';
+                    }
+                });
+            should(s.render('{{ u.v }}{{ w }}', { locals: { a: 1 } })).be.eql('[u.v][w]');
+            should(missed).be.eql(['u.v:1', 'w:1']);
+        });
+    });
+
     describe('can throw errors when parsing', function () {
         var oDefaults;
         let swig: Swig;
@@ -162,6 +410,27 @@ describe('Variables', () => {
             }, /Unexpected comma on line 1\./);
         });
 
+        it('with bad array and object literals', function () {
+            should.throws(function () {
+                swig.render('{{ [1,, 2] }}');
+            }, /Unexpected comma on line 1\./);
+            should.throws(function () {
+                swig.render('{{ {, a: 1} }}');
+            }, /Unexpected comma on line 1\./);
+            should.throws(function () {
+                swig.render('{{ {a: } }}');
+            }, /Unexpected closing curly brace on line 1\./);
+            should.throws(function () {
+                swig.render('{{ [1 2] }}');
+            }, /Missing comma before "2" on line 1\./);
+        });
+
+        it('with too many slice parts', function () {
+            should.throws(function () {
+                swig.render('{{ a[1:2:3:4] }}');
+            }, /Unexpected colon on line 1\./);
+        });
+
         it('reserved JS words', function () {
             _.each(['break', 'case', 'catch', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'finally', 'for', 'function', 'if', 'in', 'instanceof', 'new', 'return', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with'], function (r) {
                 should.throws(function () {
@@ -41,4 +41,44 @@ describe('Whitespace', function () {
                 .be.eql('burritostacos');
         });
     });
+
+    describe('trimBlocks', function () {
+        const trimmed = new Swig({ trimBlocks: true });
+
+        it('removes the first line break after a tag', function () {
+            should(trimmed.render('{% if tacos %}\ntacos\n{% endif %}\n\nend', opts))
+                .be.eql('tacos\n\nend');
+            should(trimmed.render('{% for x in [1, 2] %}\n{{ x }}\n{% endfor %}\n', opts))
+                .be.eql('1\n2\n');
+        });
+        it('keeps line breaks after variables and with "+%}"', function () {
+            should(trimmed.render('{{ tacos }}\n{% if tacos +%}\nyes{% endif %}', opts))
+                .be.eql('tacos\n\nyes');
+        });
+        it('keeps line breaks after tags in raw tags', function () {
+            should(trimmed.render('{% raw %}\n{% if %}\n{% endraw %}\nend'))
+                .be.eql('{% if %}\nend');
+        });
+        it('is off by default', function () {
+            should(swig.render('{% if tacos %}\ntacos{% endif %}', opts))
+                .be.eql('\ntacos');
+        });
+    });
+
+    describe('lstripBlocks', function () {
+        const stripped = new Swig({ lstripBlocks: true });
+
+        it('removes the spaces and tabs before a tag on its line', function () {
+            should(stripped.render('<ul>\n  {% if tacos %}\n\t<li>{{ tacos }}</li>\n  {% endif %}\n</ul>', opts))
+                .be.eql('<ul>\n\n\t<li>tacos</li>\n\n</ul>');
+        });
+        it('keeps the whitespace after text and with "{%+"', function () {
+            should(stripped.render('a  {% if tacos %}b{% endif %}\n  {%+ if tacos %}c{% endif %}', opts))
+                .be.eql('a  b\n  c');
+        });
+        it('can be used with trimBlocks', function () {
+            should(new Swig({ trimBlocks: true, lstripBlocks: true }).render('<ul>\n  {% for x in [1, 2] %}\n  <li>{{ x }}</li>\n  {% endfor %}\n</ul>'))
+                .be.eql('<ul>\n  <li>1</li>\n  <li>2</li>\n</ul>');
+        });
+    });
 });